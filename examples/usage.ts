@@ -71,7 +71,14 @@ const writeTextToResultFile = (text?: string) => {
     ]);
 
     texts.forEach(writeTextToResultFile);
-    // TODO: Bill your customers ;)
+
+    // Bill your customers ;)
+    const { totalGlm, estimatedTasksGlm } = ocr.getCostInfo();
+    console.log(
+      "Spent %d GLM so far, the OCR tasks are estimated at %d GLM",
+      totalGlm,
+      estimatedTasksGlm,
+    );
   } catch (err) {
     console.error("Failed to run the OCR on Golem", err);
   } finally {
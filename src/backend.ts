@@ -0,0 +1,172 @@
+import { EventEmitter } from "eventemitter3";
+import { CostInfo, TaskCost } from "./cost-tracker";
+import { BackendEvents } from "./events";
+
+/**
+ * The outcome of a command executed by the worker
+ */
+export interface CommandResult {
+  /** Tells if the command completed successfully */
+  ok: boolean;
+
+  /** The exit code of the command, if known */
+  exitCode?: number;
+
+  /** The standard output of the command */
+  stdout: string;
+
+  /** The standard error output of the command */
+  stderr: string;
+}
+
+/**
+ * Identifies the party which executed the work
+ */
+export interface WorkerProvider {
+  id: string;
+  name: string;
+}
+
+/**
+ * The environment in which a single unit of OCR work is executed
+ *
+ * The paths used with the worker are the paths on the worker's side, which should be placed in {@link workDir}.
+ */
+export interface OcrWorker {
+  /** The directory where the input and output files should be placed */
+  readonly workDir: string;
+
+  /** The party executing the work */
+  readonly provider: WorkerProvider;
+
+  /** The agreement with the provider, when running on the Golem Network */
+  readonly agreementId?: string;
+
+  uploadFile(localPath: string, remotePath: string): Promise<void>;
+
+  uploadData(data: Uint8Array, remotePath: string): Promise<void>;
+
+  downloadData(remotePath: string): Promise<Buffer>;
+
+  /**
+   * Executes the command with the arguments, without involving a shell
+   */
+  run(executable: string, args: string[]): Promise<CommandResult>;
+
+  /**
+   * Removes the files, ignoring the ones which do not exist
+   */
+  deleteFiles(remotePaths: string[]): Promise<void>;
+}
+
+/**
+ * Prepares a new worker before it executes its first task, for example by uploading the files shared by the tasks
+ *
+ * Throwing from the hook marks the worker as broken.
+ */
+export type WorkerSetupHook = (worker: OcrWorker) => Promise<void>;
+
+/**
+ * Limits of a single unit of work
+ */
+export interface WorkOptions {
+  /** Cancels the work, both while it waits for a worker and while it's executed */
+  signal?: AbortSignal;
+
+  /** How long (in seconds) the work can wait for a free worker */
+  queueTimeoutSec?: number;
+
+  /** How long (in seconds) a single attempt to execute the work can take */
+  executionTimeoutSec?: number;
+
+  /** The IDs of the providers which must not execute the work, used to run the same work on distinct providers */
+  excludeProviders?: string[];
+}
+
+/**
+ * The result of the work executed by the backend
+ */
+export interface WorkResult<T> {
+  result: T;
+
+  /** The cost of the work, if the backend is able to determine it */
+  cost?: TaskCost;
+
+  /** The provider which executed the work */
+  provider?: WorkerProvider;
+}
+
+/**
+ * The utilization of the workers managed by the backend
+ */
+export interface WorkerPoolStatus {
+  /** All workers, on the Golem Network these are the active rentals */
+  total: number;
+
+  /** Workers executing a task */
+  busy: number;
+
+  /** Workers waiting for a task */
+  idle: number;
+
+  /** Tasks waiting for a worker */
+  pending: number;
+}
+
+/**
+ * The execution environment used by {@link TesseractOcrOnGolem} to run Tesseract
+ */
+export interface OcrBackend {
+  /**
+   * Events about the resources managed by the backend, forwarded by {@link TesseractOcrOnGolem.events}
+   */
+  readonly events?: EventEmitter<BackendEvents>;
+
+  /**
+   * Registers a hook which runs once on each new worker, before it executes any task
+   *
+   * The hooks have to be registered before calling {@link start} and run in the order of registration.
+   */
+  addSetupHook(hook: WorkerSetupHook): void;
+
+  /**
+   * Prepares the backend to accept work
+   */
+  start(): Promise<void>;
+
+  /**
+   * Executes the task on one of the workers managed by the backend
+   *
+   * When the work is cancelled or takes too long, rejects with the {@link OcrAbortedError} or {@link OcrTimeoutError}.
+   */
+  runWork<T>(
+    task: (worker: OcrWorker) => Promise<T>,
+    options?: WorkOptions,
+  ): Promise<WorkResult<T>>;
+
+  /**
+   * Returns the summary of the costs of the session, if the backend tracks them
+   */
+  getCostInfo?(): CostInfo;
+
+  /**
+   * Returns the utilization of the workers, if the backend is able to determine it
+   */
+  getPoolStatus?(): WorkerPoolStatus;
+
+  /**
+   * Records that the provider returned outputs which the other providers executing the same work didn't agree with,
+   * if the backend keeps track of the providers
+   */
+  reportMismatch?(provider: WorkerProvider): void;
+
+  /**
+   * Waits for the work in progress to complete and releases all resources
+   */
+  stop(): Promise<void>;
+
+  /**
+   * Cancels the work in progress and releases all resources
+   */
+  abort(): Promise<void>;
+}
@@ -0,0 +1,226 @@
+import { toAbortError } from "./cancellation";
+import { printMarker, shellQuote } from "./remote-script";
+
+/**
+ * Controls how the images are grouped into batches, which are uploaded as a single archive and processed by a single
+ * command on the provider
+ */
+export interface BatchingConfig {
+  /**
+   * The maximum number of images in a batch
+   *
+   * @default 20
+   */
+  maxBatchSize?: number;
+
+  /**
+   * How long (in milliseconds) a request can wait for other requests to join its batch before the batch is sent
+   *
+   * This is the latency added to a single request when there are no other requests to batch it with.
+   *
+   * @default 20
+   */
+  maxBatchDelayMs?: number;
+}
+
+/** The outcome of the OCR of a single image of {@link TesseractOcrOnGolem.convertImagesToText} */
+export interface BatchItemResult {
+  /** The resulting text, present when the image was processed successfully */
+  text?: string;
+
+  /** The reason of the failure, present when the image could not be processed */
+  error?: Error;
+}
+
+/** The outcome of a single item of the batch, as reported by the dispatch function of {@link BatchCollector} */
+export type BatchOutcome<R> = { value: R } | { error: Error };
+
+const DEFAULT_MAX_BATCH_SIZE = 20;
+
+const DEFAULT_MAX_BATCH_DELAY_MS = 20;
+
+interface PendingItem<I, R> {
+  item: I;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+  resolve: (value: R) => void;
+  reject: (err: unknown) => void;
+}
+
+interface PendingBatch<I, R> {
+  items: PendingItem<I, R>[];
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Groups the items which can be processed together, and dispatches them once the batch is full or the oldest item
+ * has waited for the maximum delay
+ */
+export class BatchCollector<I, R> {
+  private readonly pending = new Map<string, PendingBatch<I, R>>();
+
+  constructor(
+    private readonly config: BatchingConfig,
+    private readonly dispatch: (items: I[]) => Promise<BatchOutcome<R>[]>,
+  ) {
+    const maxBatchSize = config.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+
+    if (!Number.isInteger(maxBatchSize) || maxBatchSize < 1) {
+      throw new Error("The maximum batch size has to be a positive integer");
+    }
+  }
+
+  /**
+   * Adds the item to the batch of the items with the same key
+   *
+   * @param signal - Removes the item from the batch if it aborts before the batch is dispatched.
+   *
+   * @returns A promise that settles with the outcome of the item.
+   */
+  add(key: string, item: I, signal?: AbortSignal): Promise<R> {
+    if (signal?.aborted) {
+      return Promise.reject(toAbortError(signal.reason));
+    }
+
+    return new Promise<R>((resolve, reject) => {
+      let batch = this.pending.get(key);
+
+      if (!batch) {
+        batch = { items: [] };
+        this.pending.set(key, batch);
+        batch.timer = setTimeout(
+          () => this.flush(key),
+          this.config.maxBatchDelayMs ?? DEFAULT_MAX_BATCH_DELAY_MS,
+        );
+      }
+
+      const pendingItem: PendingItem<I, R> = { item, signal, resolve, reject };
+      const currentBatch = batch;
+
+      if (signal) {
+        pendingItem.onAbort = () => {
+          currentBatch.items = currentBatch.items.filter(
+            (i) => i !== pendingItem,
+          );
+          reject(toAbortError(signal.reason));
+        };
+        signal.addEventListener("abort", pendingItem.onAbort, { once: true });
+      }
+
+      batch.items.push(pendingItem);
+
+      if (
+        batch.items.length >=
+        (this.config.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE)
+      ) {
+        this.flush(key);
+      }
+    });
+  }
+
+  private flush(key: string) {
+    const batch = this.pending.get(key);
+
+    if (!batch) {
+      return;
+    }
+
+    this.pending.delete(key);
+    clearTimeout(batch.timer);
+
+    // Once dispatched, the items can't be taken out of the batch anymore
+    batch.items.forEach((i) => {
+      if (i.onAbort) {
+        i.signal?.removeEventListener("abort", i.onAbort);
+      }
+    });
+
+    if (batch.items.length === 0) {
+      return;
+    }
+
+    const { items } = batch;
+
+    this.dispatch(items.map((i) => i.item)).then(
+      (outcomes) =>
+        items.forEach((i, idx) => {
+          const outcome = outcomes[idx];
+
+          if (outcome && "value" in outcome) {
+            i.resolve(outcome.value);
+          } else {
+            i.reject(outcome?.error ?? new Error("Missing batch outcome"));
+          }
+        }),
+      (err) => items.forEach((i) => i.reject(err)),
+    );
+  }
+}
+
+/**
+ * Builds an uncompressed tar archive (in the ustar format) with the files placed in its root
+ */
+export const createTarArchive = (
+  entries: { name: string; data: Buffer }[],
+): Buffer => {
+  const blocks: Buffer[] = [];
+
+  for (const { name, data } of entries) {
+    const header = Buffer.alloc(512);
+    const octal = (value: number, length: number) =>
+      value.toString(8).padStart(length - 1, "0") + "\0";
+
+    header.write(name, 0, 100, "utf-8");
+    header.write(octal(0o644, 8), 100, "ascii");
+    header.write(octal(0, 8), 108, "ascii");
+    header.write(octal(0, 8), 116, "ascii");
+    header.write(octal(data.length, 12), 124, "ascii");
+    header.write(octal(Math.floor(Date.now() / 1000), 12), 136, "ascii");
+    header.write("        ", 148, "ascii");
+    header.write("0", 156, "ascii");
+    header.write("ustar\0", 257, "ascii");
+    header.write("00", 263, "ascii");
+
+    // The checksum is computed with the checksum field filled with spaces
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    header.write(checksum.toString(8).padStart(6, "0") + "\0 ", 148, "ascii");
+
+    blocks.push(header, data);
+
+    const padding = (512 - (data.length % 512)) % 512;
+    if (padding > 0) {
+      blocks.push(Buffer.alloc(padding));
+    }
+  }
+
+  // The end of the archive is marked with two empty blocks
+  blocks.push(Buffer.alloc(1024));
+
+  return Buffer.concat(blocks);
+};
+
+/**
+ * Builds the shell script which extracts the archive with the images of the batch, runs Tesseract for each of them
+ * and removes all the files afterwards
+ *
+ * The text of each image is followed by the marker line with the exit code of Tesseract.
+ */
+export const buildBatchScript = (params: {
+  archivePath: string;
+  dir: string;
+  fileNames: string[];
+  args: string[];
+  marker: string;
+  cleanup: string[];
+}) => {
+  const { archivePath, dir, fileNames, args, marker, cleanup } = params;
+
+  return [
+    `mkdir -p ${shellQuote(dir)} && tar -xf ${shellQuote(archivePath)} -C ${shellQuote(dir)} || exit 1`,
+    ...fileNames.flatMap((name) => [
+      `tesseract ${[`${dir}/${name}`, "stdout", ...args].map(shellQuote).join(" ")}`,
+      printMarker(marker),
+    ]),
+    `rm -rf ${[dir, archivePath, ...cleanup].map(shellQuote).join(" ")}`,
+  ].join("\n");
+};
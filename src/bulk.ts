@@ -0,0 +1,347 @@
+import { Readable } from "stream";
+import { EventEmitter } from "eventemitter3";
+import { toAbortError } from "./cancellation";
+import { DocumentResult } from "./document";
+import { OcrInput } from "./input";
+import { OcrResult } from "./ocr-result";
+import { JobJournal } from "./journal";
+
+/**
+ * A single item of a bulk job
+ */
+export interface BulkItem {
+  /**
+   * Identifies the item in the results, like the name of the file or the key of the record in your database
+   *
+   * @default the 0-based index of the item, as a string
+   */
+  id?: string;
+
+  input: OcrInput;
+}
+
+/**
+ * What is done with each of the items of a bulk job
+ *
+ * - `text` - {@link TesseractOcrOnGolem.convertImageToText}, the outcome is in {@link BulkItemResult.text}
+ * - `recognize` - {@link TesseractOcrOnGolem.recognizeImage}, the outcome is in {@link BulkItemResult.result}
+ * - `document` - {@link TesseractOcrOnGolem.convertDocument}, the outcome is in {@link BulkItemResult.document}
+ */
+export type BulkMode = "text" | "recognize" | "document";
+
+/**
+ * The outcome of a single item of a bulk job
+ */
+export interface BulkItemResult {
+  id: string;
+
+  /** The 0-based index of the item in the job */
+  index: number;
+
+  /** The resulting text, present for the successful items in the `text` mode */
+  text?: string;
+
+  /** The structured result, present for the successful items in the `recognize` mode */
+  result?: OcrResult;
+
+  /** The per-page results, present for the successful items in the `document` mode */
+  document?: DocumentResult;
+
+  /** The reason of the failure, present when the item could not be processed */
+  error?: Error;
+
+  /** How long (in milliseconds) the processing of the item took, including the time spent in the queue */
+  durationMs: number;
+
+  /**
+   * True when the item was completed by a previous run of the job according to the journal, in which case only
+   * the {@link text} is available
+   */
+  fromJournal?: boolean;
+}
+
+/**
+ * How far the bulk job has got
+ */
+export interface BulkProgress {
+  /** The number of all items, known once all of them have been read from the source */
+  total?: number;
+
+  /** The items read from the source which are waiting for their turn */
+  queued: number;
+
+  /** The items submitted to the OCR which are not completed yet */
+  running: number;
+
+  /** The items completed successfully */
+  done: number;
+
+  /** The items which failed */
+  failed: number;
+
+  /** For how long (in seconds) the job has been running */
+  elapsedSec: number;
+
+  /**
+   * The estimated time (in seconds) until all items are completed, based on the pace so far
+   *
+   * Known once the total is known and at least one item is completed.
+   */
+  etaSec?: number;
+}
+
+export interface BulkJobEvents {
+  /** An item has been completed, successfully or not */
+  itemCompleted: (result: BulkItemResult, progress: BulkProgress) => void;
+
+  /** All items have been completed */
+  completed: (progress: BulkProgress) => void;
+}
+
+/**
+ * Processes the item and returns the outcome in the field matching the mode
+ */
+export type BulkProcessor = (
+  item: Required<BulkItem>,
+) => Promise<Pick<BulkItemResult, "text" | "result" | "document">>;
+
+export interface BulkJobOptions {
+  /** How many items are submitted to the OCR at the same time */
+  concurrency: number;
+
+  /** Stops submitting the items, the ones not submitted yet fail with the reason of the signal */
+  signal?: AbortSignal;
+
+  /** Keeps the results until they are consumed with the iterator */
+  bufferResults: boolean;
+
+  mode: BulkMode;
+
+  /** Records the progress of the items, and allows skipping the ones completed by the previous runs */
+  journal?: JobJournal;
+}
+
+/**
+ * The text of the outcome in any of the modes, which is recorded in the journal
+ */
+const getText = (
+  outcome: Pick<BulkItemResult, "text" | "result" | "document">,
+): string | undefined =>
+  outcome.text ??
+  outcome.result?.text ??
+  outcome.result?.pages.map((page) => page.text).join("\n") ??
+  outcome.document?.text;
+
+const isBulkItem = (value: BulkItem | OcrInput): value is BulkItem =>
+  typeof value === "object" &&
+  !(value instanceof Readable) &&
+  !(value instanceof URL) &&
+  !(value instanceof Uint8Array) &&
+  "input" in value;
+
+/**
+ * A bulk OCR job which reports the outcome of each of the items as soon as it's completed
+ *
+ * Iterate over the job with `for await` to receive the results in the order of completion, or listen to its
+ * {@link events}. The failures of the items don't stop the job, they are reported in {@link BulkItemResult.error}.
+ */
+export class BulkJob implements AsyncIterable<BulkItemResult> {
+  readonly events = new EventEmitter<BulkJobEvents>();
+
+  private readonly startedAt = Date.now();
+
+  private total?: number;
+
+  private queued = 0;
+
+  private running = 0;
+
+  private done = 0;
+
+  private failed = 0;
+
+  /** The results which haven't been consumed by the iterator yet */
+  private readonly buffer: BulkItemResult[] = [];
+
+  private notify?: () => void;
+
+  private finished = false;
+
+  private failure?: Error;
+
+  /** Resolves with the final progress once all the items are completed */
+  readonly completion: Promise<BulkProgress>;
+
+  constructor(
+    items: Iterable<BulkItem | OcrInput> | AsyncIterable<BulkItem | OcrInput>,
+    private readonly process: BulkProcessor,
+    private readonly options: BulkJobOptions,
+  ) {
+    if (Array.isArray(items)) {
+      this.total = items.length;
+      this.queued = items.length;
+    }
+
+    this.completion = this.run(items);
+    // The failure is delivered through the iterator, don't let it crash the process if nobody awaits the completion
+    this.completion.catch(() => undefined);
+  }
+
+  getProgress(): BulkProgress {
+    const completed = this.done + this.failed;
+    const elapsedSec = (Date.now() - this.startedAt) / 1000;
+
+    return {
+      total: this.total,
+      queued: this.queued,
+      running: this.running,
+      done: this.done,
+      failed: this.failed,
+      elapsedSec,
+      etaSec:
+        this.total !== undefined && completed > 0
+          ? ((this.total - completed) * elapsedSec) / completed
+          : undefined,
+    };
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<BulkItemResult> {
+    for (;;) {
+      const result = this.buffer.shift();
+
+      if (result) {
+        yield result;
+        continue;
+      }
+
+      if (this.failure) {
+        throw this.failure;
+      }
+
+      if (this.finished) {
+        return;
+      }
+
+      await new Promise<void>((resolve) => (this.notify = resolve));
+    }
+  }
+
+  private async run(
+    items: Iterable<BulkItem | OcrInput> | AsyncIterable<BulkItem | OcrInput>,
+  ): Promise<BulkProgress> {
+    const active = new Set<Promise<void>>();
+    let index = 0;
+
+    try {
+      await this.options.journal?.load();
+
+      for await (const value of items) {
+        const item = isBulkItem(value) ? value : { input: value };
+        const id = item.id ?? String(index);
+        const itemIndex = index++;
+
+        if (!Array.isArray(items)) {
+          this.queued++;
+        }
+
+        const entry = this.options.journal?.getEntry(id);
+        if (entry?.state === "completed") {
+          this.queued--;
+          this.done++;
+          this.report({
+            id,
+            index: itemIndex,
+            text: entry.text,
+            durationMs: 0,
+            fromJournal: true,
+          });
+          continue;
+        }
+
+        while (active.size >= this.options.concurrency) {
+          await Promise.race(active);
+        }
+
+        this.queued--;
+
+        const promise = this.processItem({ id, input: item.input }, itemIndex);
+        active.add(promise);
+        promise.finally(() => active.delete(promise));
+      }
+
+      this.total = index;
+      await Promise.all(active);
+    } catch (err) {
+      // Reading the source failed, complete the items already submitted and report the failure
+      await Promise.all(active);
+      this.failure = err instanceof Error ? err : new Error(String(err));
+      this.wakeUp();
+      throw this.failure;
+    }
+
+    this.finished = true;
+    this.wakeUp();
+
+    const progress = this.getProgress();
+    this.events.emit("completed", progress);
+
+    return progress;
+  }
+
+  private async processItem(item: Required<BulkItem>, index: number) {
+    const startedAt = Date.now();
+    this.running++;
+
+    const { journal } = this.options;
+    let result: BulkItemResult;
+
+    try {
+      if (this.options.signal?.aborted) {
+        throw toAbortError(this.options.signal.reason);
+      }
+
+      await journal?.recordSubmitted(item.id, this.options.mode, item.input);
+      const outcome = await this.process(item);
+      await journal?.recordCompleted(item.id, getText(outcome));
+
+      result = {
+        id: item.id,
+        index,
+        ...outcome,
+        durationMs: Date.now() - startedAt,
+      };
+      this.done++;
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+
+      // The item might not be recorded at all, if the journal itself failed
+      await journal?.recordFailed(item.id, error).catch(() => undefined);
+
+      result = {
+        id: item.id,
+        index,
+        error,
+        durationMs: Date.now() - startedAt,
+      };
+      this.failed++;
+    }
+
+    this.running--;
+    this.report(result);
+  }
+
+  private report(result: BulkItemResult) {
+    if (this.options.bufferResults) {
+      this.buffer.push(result);
+      this.wakeUp();
+    }
+
+    this.events.emit("itemCompleted", result, this.getProgress());
+  }
+
+  private wakeUp() {
+    const notify = this.notify;
+    this.notify = undefined;
+    notify?.();
+  }
+}
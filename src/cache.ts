@@ -0,0 +1,332 @@
+import * as fs from "fs";
+import path from "path";
+import { createHash, randomUUID } from "crypto";
+import { ResolvedInput } from "./input";
+import { OcrOutputFormat } from "./ocr-result";
+
+/**
+ * The storage of the cached OCR results
+ *
+ * Implement it to keep the cache in an external service like Redis. The keys are hex-encoded SHA-256 hashes, the
+ * values are opaque. The store decides how long the entries are kept, and it may drop them at any time.
+ */
+export interface OcrCacheStore {
+  /** Returns the value stored under the key, or undefined if there is no such entry or it has expired */
+  get(key: string): Promise<Buffer | undefined>;
+
+  /** Stores the value under the key, replacing the previous one */
+  set(key: string, value: Buffer): Promise<void>;
+}
+
+export interface MemoryCacheStoreConfig {
+  /**
+   * How long (in seconds) the entries are kept
+   *
+   * @default unlimited
+   */
+  ttlSec?: number;
+
+  /**
+   * The maximum number of entries, the least recently used ones are evicted first
+   *
+   * @default unlimited
+   */
+  maxEntries?: number;
+
+  /**
+   * The maximum total size of the values in bytes, the least recently used ones are evicted first
+   *
+   * @default 64 MiB
+   */
+  maxBytes?: number;
+}
+
+const DEFAULT_MEMORY_MAX_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Keeps the cached results in the memory of the process
+ */
+export class MemoryCacheStore implements OcrCacheStore {
+  /** Ordered from the least to the most recently used */
+  private readonly entries = new Map<
+    string,
+    { value: Buffer; expiresAt: number }
+  >();
+
+  private totalBytes = 0;
+
+  constructor(private readonly config: MemoryCacheStoreConfig = {}) {}
+
+  async get(key: string) {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    this.delete(key);
+
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    this.entries.set(key, entry);
+    this.totalBytes += entry.value.length;
+
+    return entry.value;
+  }
+
+  async set(key: string, value: Buffer) {
+    const maxBytes = this.config.maxBytes ?? DEFAULT_MEMORY_MAX_BYTES;
+
+    this.delete(key);
+
+    if (value.length > maxBytes) {
+      return;
+    }
+
+    this.entries.set(key, {
+      value,
+      expiresAt:
+        this.config.ttlSec !== undefined
+          ? Date.now() + this.config.ttlSec * 1000
+          : Infinity,
+    });
+    this.totalBytes += value.length;
+
+    const maxEntries = this.config.maxEntries ?? Infinity;
+
+    for (const oldestKey of this.entries.keys()) {
+      if (this.entries.size <= maxEntries && this.totalBytes <= maxBytes) {
+        break;
+      }
+      this.delete(oldestKey);
+    }
+  }
+
+  private delete(key: string) {
+    const entry = this.entries.get(key);
+
+    if (entry) {
+      this.entries.delete(key);
+      this.totalBytes -= entry.value.length;
+    }
+  }
+}
+
+export interface DiskCacheStoreConfig {
+  /** The directory which holds the cached results, created if it doesn't exist */
+  dir: string;
+
+  /**
+   * How long (in seconds) the entries are kept
+   *
+   * @default unlimited
+   */
+  ttlSec?: number;
+
+  /**
+   * The maximum total size of the cached files in bytes, the oldest ones are removed first
+   *
+   * @default 1 GiB
+   */
+  maxBytes?: number;
+}
+
+const DEFAULT_DISK_MAX_BYTES = 1024 * 1024 * 1024;
+
+/**
+ * Keeps the cached results as files in a local directory, so they survive the restarts of the process
+ */
+export class DiskCacheStore implements OcrCacheStore {
+  /** The size of the directory, tracked after the first scan to avoid listing it on each write */
+  private knownBytes?: number;
+
+  constructor(private readonly config: DiskCacheStoreConfig) {}
+
+  async get(key: string) {
+    const filePath = this.getFilePath(key);
+
+    try {
+      const stat = await fs.promises.stat(filePath);
+
+      if (this.isExpired(stat.mtimeMs)) {
+        await fs.promises.rm(filePath, { force: true });
+        return undefined;
+      }
+
+      return await fs.promises.readFile(filePath);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  async set(key: string, value: Buffer) {
+    const filePath = this.getFilePath(key);
+
+    // Write to a temporary file first, so that the readers never see a partially written entry
+    const tmpPath = `${filePath}.${randomUUID()}.tmp`;
+
+    await fs.promises.mkdir(this.config.dir, { recursive: true });
+    await fs.promises.writeFile(tmpPath, value);
+    await fs.promises.rename(tmpPath, filePath);
+
+    if (this.knownBytes === undefined) {
+      await this.prune();
+    } else {
+      this.knownBytes += value.length;
+
+      if (this.knownBytes > (this.config.maxBytes ?? DEFAULT_DISK_MAX_BYTES)) {
+        await this.prune();
+      }
+    }
+  }
+
+  /**
+   * Removes the expired entries and the oldest ones above the size limit
+   */
+  private async prune() {
+    const names = await fs.promises.readdir(this.config.dir);
+    const files: { filePath: string; size: number; mtimeMs: number }[] = [];
+
+    for (const name of names.filter((n) => !n.endsWith(".tmp"))) {
+      const filePath = path.join(this.config.dir, name);
+
+      try {
+        const stat = await fs.promises.stat(filePath);
+
+        if (this.isExpired(stat.mtimeMs)) {
+          await fs.promises.rm(filePath, { force: true });
+        } else {
+          files.push({ filePath, size: stat.size, mtimeMs: stat.mtimeMs });
+        }
+      } catch {
+        // Removed concurrently by another process
+      }
+    }
+
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+
+    const maxBytes = this.config.maxBytes ?? DEFAULT_DISK_MAX_BYTES;
+    let totalBytes = files.reduce((sum, f) => sum + f.size, 0);
+
+    for (const file of files) {
+      if (totalBytes <= maxBytes) {
+        break;
+      }
+      await fs.promises.rm(file.filePath, { force: true });
+      totalBytes -= file.size;
+    }
+
+    this.knownBytes = totalBytes;
+  }
+
+  private isExpired(mtimeMs: number) {
+    return (
+      this.config.ttlSec !== undefined &&
+      mtimeMs + this.config.ttlSec * 1000 <= Date.now()
+    );
+  }
+
+  private getFilePath(key: string) {
+    if (!/^[a-f0-9]+$/.test(key)) {
+      throw new Error(`Invalid cache key ${key}`);
+    }
+
+    return path.join(this.config.dir, key);
+  }
+}
+
+/**
+ * Serializes the value with the object keys sorted, so that equal settings always produce the same key
+ */
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+
+  return JSON.stringify(value);
+};
+
+/**
+ * Computes the cache key from the contents of the image and everything which affects the outcome of the OCR
+ */
+export const computeCacheKey = async (
+  source: ResolvedInput,
+  settings: unknown,
+): Promise<string> => {
+  const hash = createHash("sha256");
+
+  hash.update(canonicalJson(settings));
+  hash.update("\0");
+
+  if (source.localPath) {
+    for await (const chunk of fs.createReadStream(source.localPath)) {
+      hash.update(chunk);
+    }
+  } else {
+    hash.update(source.data ?? new Uint8Array());
+  }
+
+  return hash.digest("hex");
+};
+
+/**
+ * The outputs of Tesseract kept in the cache, along with the cost of producing them
+ */
+export interface CacheEntry {
+  /** The outputs by their format, along with the auxiliary ones like the outcome of the OSD */
+  outputs: Partial<Record<OcrOutputFormat | "osd", Buffer>>;
+
+  /** The estimated cost of the original execution in GLM */
+  estimatedGlm: number;
+
+  /** True when the outputs were confirmed by multiple providers, see {@link VerificationConfig} */
+  verified?: boolean;
+}
+
+export const encodeCacheEntry = (entry: CacheEntry): Buffer =>
+  Buffer.from(
+    JSON.stringify({
+      outputs: Object.fromEntries(
+        Object.entries(entry.outputs).map(([format, data]) => [
+          format,
+          data.toString("base64"),
+        ]),
+      ),
+      estimatedGlm: entry.estimatedGlm,
+      verified: entry.verified,
+    }),
+  );
+
+/**
+ * @returns The entry, or undefined if the value is not a valid entry
+ */
+export const decodeCacheEntry = (value: Buffer): CacheEntry | undefined => {
+  try {
+    const parsed = JSON.parse(value.toString());
+
+    return {
+      outputs: Object.fromEntries(
+        Object.entries(parsed.outputs as Record<string, string>).map(
+          ([format, data]) => [format, Buffer.from(data, "base64")],
+        ),
+      ),
+      estimatedGlm: Number(parsed.estimatedGlm) || 0,
+      verified: parsed.verified === true,
+    };
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,102 @@
+import { OcrAbortedError, OcrTimeoutError, OcrTimeoutPhase } from "./errors";
+
+/**
+ * A signal limited in time and linked with the parent signals
+ */
+export interface CancellationScope {
+  signal: AbortSignal;
+
+  /** Stops the timer and detaches from the parent signals, call it once the guarded operation is settled */
+  dispose(): void;
+}
+
+/**
+ * Converts the reason of an aborted signal into the error reported to the user
+ */
+export const toAbortError = (reason: unknown): Error => {
+  if (reason instanceof OcrAbortedError || reason instanceof OcrTimeoutError) {
+    return reason;
+  }
+
+  return new OcrAbortedError(
+    typeof reason === "string" ? reason : undefined,
+    reason,
+  );
+};
+
+/**
+ * Creates a signal which aborts with {@link OcrTimeoutError} once the time elapses, or with {@link OcrAbortedError}
+ * when any of the parent signals aborts
+ */
+export const createCancellationScope = (
+  phase: OcrTimeoutPhase,
+  timeoutSec: number | undefined,
+  parents: (AbortSignal | undefined)[],
+): CancellationScope => {
+  const controller = new AbortController();
+  const linked = parents.filter((p): p is AbortSignal => p !== undefined);
+
+  const onParentAbort = (event: Event) =>
+    controller.abort(toAbortError((event.target as AbortSignal).reason));
+
+  for (const parent of linked) {
+    if (parent.aborted) {
+      controller.abort(toAbortError(parent.reason));
+      break;
+    }
+    parent.addEventListener("abort", onParentAbort, { once: true });
+  }
+
+  const timer =
+    timeoutSec !== undefined && !controller.signal.aborted
+      ? setTimeout(
+          () => controller.abort(new OcrTimeoutError(phase, timeoutSec)),
+          timeoutSec * 1000,
+        )
+      : undefined;
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      linked.forEach((p) => p.removeEventListener("abort", onParentAbort));
+    },
+  };
+};
+
+/**
+ * Settles with the outcome of the promise, or rejects with the reason of the signal if it aborts first
+ *
+ * @param onAbandoned - Receives the value if the promise resolves after the signal aborted, so it can be released.
+ */
+export const raceWithSignal = <T>(
+  promise: Promise<T>,
+  signal: AbortSignal,
+  onAbandoned?: (value: T) => void,
+): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      reject(signal.reason);
+      promise.then(
+        (value) => onAbandoned?.(value),
+        () => undefined,
+      );
+    };
+
+    if (signal.aborted) {
+      return onAbort();
+    }
+
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (err) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(err);
+      },
+    );
+  });
@@ -0,0 +1,607 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs } from "util";
+import {
+  TesseractOcrOnGolem,
+  TesseractOcrOnGolemConfig,
+} from "./tesseract-ocr-on-golem";
+import { TesseractArgs } from "./tesseract-args";
+import { TesseractModel } from "./models";
+import { GolemServiceConfig } from "./golem-backend";
+import { LocalBackend } from "./local-backend";
+import {
+  OcrOutputFormat,
+  OcrResult,
+  OUTPUT_FORMAT_EXTENSIONS,
+} from "./ocr-result";
+
+/**
+ * The shape of the JSON file passed with `--config`
+ *
+ * The flags provided on the command line take precedence over the values from the file.
+ */
+interface CliConfigFile {
+  service?: Partial<GolemServiceConfig>;
+  args?: TesseractArgs;
+  models?: TesseractModel[];
+  formats?: OcrOutputFormat[];
+  outputDir?: string;
+  concurrency?: number;
+  local?: boolean;
+}
+
+/**
+ * A file to process along with the directory its output path is computed relative to
+ */
+interface CliInputFile {
+  filePath: string;
+  baseDir: string;
+}
+
+const USAGE = `Usage: tesseract-ocr-golem [options] <file|directory|glob>...
+
+Runs Tesseract OCR on the Golem Network for each of the images, directories (searched recursively)
+and glob patterns (like "scans/**/*.png"). Multi-page TIFF and PDF files are split into pages.
+The results are named after the whole name of the input, like "scan.png.txt" or "contract.pdf.pdf".
+
+Options:
+  -o, --output-dir <dir>    Write the results into this directory instead of next to the inputs
+  -f, --format <formats>    Comma-separated output formats: txt, hocr, tsv, alto, pdf (default: txt)
+  -l, --lang <lang>         The language(s) used by Tesseract, like "eng" or "eng+deu"
+      --psm <number>        The page segmentation mode
+      --oem <number>        The OCR engine mode
+  -c, --config <file>       A JSON file with the "service", "args", "models", "formats", "outputDir",
+                            "concurrency" and "local" settings
+      --max-replicas <n>    The maximum number of providers to rent (default: 4)
+      --price <glm>         The maximum price in GLM per hour of a single provider (default: 1)
+      --rent-hours <hours>  How long the providers can be rented for (default: 1)
+      --spending-cap <glm>  Stop accepting new work after spending this amount of GLM
+      --concurrency <n>     How many files are processed at the same time (default: 8)
+      --local               Use the locally installed tesseract instead of the Golem Network
+  -h, --help                Show this help
+
+Environment variables:
+  GOLEM_API_KEY             The yagna app-key, required unless --local is used
+  GOLEM_API_URL             The URL of the yagna instance (default: http://localhost:7465)
+  GOLEM_PAYMENT_NETWORK     The payment network, "polygon" or "holesky" (default: holesky)
+
+The exit code is 0 when all files were processed, 1 when some of them failed and 2 on usage errors.
+`;
+
+const IMAGE_EXTENSIONS = new Set([
+  ".png",
+  ".jpg",
+  ".jpeg",
+  ".tif",
+  ".tiff",
+  ".bmp",
+  ".gif",
+  ".webp",
+  ".pbm",
+  ".pgm",
+  ".ppm",
+  ".pnm",
+  ".pdf",
+]);
+
+const DOCUMENT_EXTENSIONS = new Set([".tif", ".tiff", ".pdf"]);
+
+const DEFAULT_SERVICE_CONFIG: GolemServiceConfig = {
+  market: {
+    rentHours: 1,
+    priceGlmPerHour: 1,
+  },
+  deploy: {
+    maxReplicas: 4,
+    resources: {
+      minCpuThreads: 1,
+    },
+    downscaleIntervalSec: 60,
+  },
+  initTimeoutSec: 90,
+  requestStartTimeoutSec: 60,
+};
+
+const DEFAULT_CONCURRENCY = 8;
+
+class UsageError extends Error {}
+
+const hasGlobMagic = (segment: string) => /[*?[{]/.test(segment);
+
+/**
+ * Converts a glob pattern into a regular expression matching the `/` separated relative paths
+ *
+ * Supports `**`, `*`, `?`, `[...]` and `{a,b}`.
+ */
+const globToRegExp = (pattern: string): RegExp => {
+  let source = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "*" && pattern[i + 1] === "*") {
+      const followedBySlash = pattern[i + 2] === "/";
+      source += followedBySlash ? "(?:.*/)?" : ".*";
+      i += followedBySlash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", i);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        source += `[${pattern.slice(i + 1, end).replace(/^!/, "^")}]`;
+        i = end;
+      }
+    } else if (char === "{") {
+      const end = pattern.indexOf("}", i);
+      if (end === -1) {
+        source += "\\{";
+      } else {
+        const alternatives = pattern
+          .slice(i + 1, end)
+          .split(",")
+          .map((alt) => alt.replace(/[.+^$()|\\]/g, "\\$&"));
+        source += `(?:${alternatives.join("|")})`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+};
+
+const walk = async (dir: string): Promise<string[]> => {
+  const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(
+    entries.map((entry) => {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        return walk(entryPath);
+      }
+      return entry.isFile() ? [entryPath] : [];
+    }),
+  );
+
+  return nested.flat();
+};
+
+const isImage = (filePath: string) =>
+  IMAGE_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+
+/**
+ * Expands the files, directories and glob patterns provided on the command line into the list of files
+ */
+const expandInputs = async (patterns: string[]): Promise<CliInputFile[]> => {
+  const files = new Map<string, CliInputFile>();
+  const add = (filePath: string, baseDir: string) =>
+    files.set(path.resolve(filePath), { filePath, baseDir });
+
+  for (const pattern of patterns) {
+    const stat = await fs.promises.stat(pattern).catch(() => undefined);
+
+    if (stat?.isFile()) {
+      add(pattern, path.dirname(pattern));
+    } else if (stat?.isDirectory()) {
+      (await walk(pattern)).filter(isImage).forEach((f) => add(f, pattern));
+    } else {
+      const segments = pattern.split(/[\\/]/);
+      const firstMagic = segments.findIndex(hasGlobMagic);
+
+      if (firstMagic === -1) {
+        throw new UsageError(`The input ${pattern} does not exist`);
+      }
+
+      const baseDir = segments.slice(0, firstMagic).join("/") || ".";
+      const matcher = globToRegExp(segments.slice(firstMagic).join("/"));
+      const baseExists = await fs.promises
+        .stat(baseDir)
+        .then((s) => s.isDirectory())
+        .catch(() => false);
+      const candidates = baseExists ? await walk(baseDir) : [];
+
+      candidates
+        .filter((f) =>
+          matcher.test(path.relative(baseDir, f).split(path.sep).join("/")),
+        )
+        .forEach((f) => add(f, baseDir));
+    }
+  }
+
+  return [...files.values()];
+};
+
+const parseNumber = (name: string, value?: string) => {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new UsageError(`The --${name} option requires a number`);
+  }
+
+  return parsed;
+};
+
+const parseFormats = (values: string[]): OcrOutputFormat[] => {
+  const formats = values.flatMap((v) => v.split(",")).map((f) => f.trim());
+  const invalid = formats.filter((f) => !(f in OUTPUT_FORMAT_EXTENSIONS));
+
+  if (invalid.length > 0) {
+    throw new UsageError(`Unsupported output formats: ${invalid.join(", ")}`);
+  }
+
+  return formats as OcrOutputFormat[];
+};
+
+const readConfigFile = async (configPath?: string): Promise<CliConfigFile> => {
+  if (!configPath) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(await fs.promises.readFile(configPath, "utf-8"));
+  } catch (err) {
+    throw new UsageError(
+      `Failed to read the config file ${configPath}: ${err instanceof Error ? err.message : err}`,
+    );
+  }
+};
+
+/**
+ * Computes the path of the result file for the given input
+ *
+ * The extension is appended to the whole name of the input (like `scan.png.txt`), so that the results of the inputs
+ * sharing the name, like `scan.png` and `scan.jpg`, don't overwrite each other.
+ */
+const getOutputPath = (
+  input: CliInputFile,
+  extension: string,
+  outputDir?: string,
+  suffix = "",
+) => {
+  const parsed = path.parse(input.filePath);
+  const name = `${parsed.base}${suffix}.${extension}`;
+
+  if (!outputDir) {
+    return path.join(parsed.dir, name);
+  }
+
+  const relativeDir = path.relative(input.baseDir, parsed.dir);
+  return path.join(outputDir, relativeDir, name);
+};
+
+/**
+ * Creates the check which keeps the results from overwriting the inputs or the results of the other inputs
+ *
+ * @returns The function which throws when the input can't write to the path.
+ */
+const createOutputGuard = (inputs: CliInputFile[]) => {
+  const inputPaths = new Set(inputs.map((i) => path.resolve(i.filePath)));
+  const owners = new Map<string, string>();
+
+  return (outputPath: string, input: CliInputFile) => {
+    const resolved = path.resolve(outputPath);
+
+    if (inputPaths.has(resolved)) {
+      throw new Error(`Refusing to overwrite the input ${outputPath}`);
+    }
+
+    const owner = owners.get(resolved);
+    if (owner !== undefined && owner !== input.filePath) {
+      throw new Error(
+        `Refusing to overwrite ${outputPath}, which holds the result of ${owner}`,
+      );
+    }
+
+    owners.set(resolved, input.filePath);
+  };
+};
+
+type OutputGuard = ReturnType<typeof createOutputGuard>;
+
+const writeResult = async (
+  result: OcrResult,
+  format: OcrOutputFormat,
+  outputPath: string,
+) => {
+  const content =
+    format === "txt"
+      ? (result.text ?? result.pages.map((p) => p.text).join("\n"))
+      : result[format];
+
+  if (content === undefined) {
+    throw new Error(`Tesseract did not produce the ${format} output`);
+  }
+
+  await fs.promises.mkdir(path.dirname(outputPath), { recursive: true });
+  await fs.promises.writeFile(outputPath, content);
+};
+
+/**
+ * Runs the OCR for a single input and writes the results
+ */
+const processFile = async (
+  ocr: TesseractOcrOnGolem,
+  input: CliInputFile,
+  formats: OcrOutputFormat[],
+  guard: OutputGuard,
+  outputDir?: string,
+) => {
+  const ext = path.extname(input.filePath).toLowerCase();
+  const getGuardedPath = (extension: string, suffix?: string) => {
+    const outputPath = getOutputPath(input, extension, outputDir, suffix);
+    guard(outputPath, input);
+    return outputPath;
+  };
+
+  if (!DOCUMENT_EXTENSIONS.has(ext)) {
+    const result = await ocr.recognizeImage(input.filePath, { formats });
+    for (const format of formats) {
+      const outputPath = getGuardedPath(OUTPUT_FORMAT_EXTENSIONS[format]);
+      await writeResult(result, format, outputPath);
+    }
+    return;
+  }
+
+  const document = await ocr.convertDocument(input.filePath, { formats });
+  const multiPage = document.pages.length > 1;
+
+  for (const format of formats) {
+    const extension = OUTPUT_FORMAT_EXTENSIONS[format];
+
+    if (format === "txt") {
+      const outputPath = getGuardedPath(extension);
+      await fs.promises.mkdir(path.dirname(outputPath), { recursive: true });
+      await fs.promises.writeFile(outputPath, document.text);
+      continue;
+    }
+
+    // The PDFs of the pages are merged into a single file
+    if (format === "pdf") {
+      if (document.pdf) {
+        const outputPath = getGuardedPath(extension);
+        await fs.promises.mkdir(path.dirname(outputPath), { recursive: true });
+        await fs.promises.writeFile(outputPath, document.pdf);
+      }
+      continue;
+    }
+
+    // Other formats can't be concatenated, each page gets its own file
+    for (const page of document.pages) {
+      if (page.result) {
+        const suffix = multiPage ? `.page-${page.pageNum}` : "";
+        const outputPath = getGuardedPath(extension, suffix);
+        await writeResult(page.result, format, outputPath);
+      }
+    }
+  }
+
+  if (document.failedPages.length > 0) {
+    throw new Error(
+      `Failed to process pages ${document.failedPages.join(", ")} of ${document.pages.length}`,
+    );
+  }
+};
+
+/**
+ * Runs the command line tool
+ *
+ * @returns The exit code of the process
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  let parsed;
+
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        "output-dir": { type: "string", short: "o" },
+        format: { type: "string", short: "f", multiple: true },
+        lang: { type: "string", short: "l" },
+        psm: { type: "string" },
+        oem: { type: "string" },
+        config: { type: "string", short: "c" },
+        "max-replicas": { type: "string" },
+        price: { type: "string" },
+        "rent-hours": { type: "string" },
+        "spending-cap": { type: "string" },
+        concurrency: { type: "string" },
+        local: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    console.error(USAGE);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  let ocr: TesseractOcrOnGolem;
+  let inputs: CliInputFile[];
+  let formats: OcrOutputFormat[];
+  let outputDir: string | undefined;
+  let concurrency: number;
+
+  try {
+    if (positionals.length === 0) {
+      throw new UsageError("No input files were provided");
+    }
+
+    const file = await readConfigFile(values.config);
+
+    formats = values.format
+      ? parseFormats(values.format)
+      : (file.formats ?? ["txt"]);
+    outputDir = values["output-dir"] ?? file.outputDir;
+    concurrency =
+      parseNumber("concurrency", values.concurrency) ??
+      file.concurrency ??
+      DEFAULT_CONCURRENCY;
+
+    const args: TesseractArgs = {
+      ...file.args,
+      ...(values.lang !== undefined && { lang: values.lang }),
+      ...(values.psm !== undefined && { psm: parseNumber("psm", values.psm) }),
+      ...(values.oem !== undefined && { oem: parseNumber("oem", values.oem) }),
+    };
+
+    const maxReplicas = parseNumber("max-replicas", values["max-replicas"]);
+    const priceGlmPerHour = parseNumber("price", values.price);
+    const rentHours = parseNumber("rent-hours", values["rent-hours"]);
+    const spendingCapGlm = parseNumber("spending-cap", values["spending-cap"]);
+
+    const service: GolemServiceConfig = {
+      ...DEFAULT_SERVICE_CONFIG,
+      ...file.service,
+      market: {
+        ...DEFAULT_SERVICE_CONFIG.market,
+        ...file.service?.market,
+        ...(priceGlmPerHour !== undefined && { priceGlmPerHour }),
+        ...(rentHours !== undefined && { rentHours }),
+        ...(spendingCapGlm !== undefined && { spendingCapGlm }),
+      },
+      deploy: {
+        ...DEFAULT_SERVICE_CONFIG.deploy,
+        ...file.service?.deploy,
+        ...(maxReplicas !== undefined && { maxReplicas }),
+      },
+    };
+
+    const config: TesseractOcrOnGolemConfig =
+      values.local || file.local
+        ? { backend: new LocalBackend(), args, models: file.models }
+        : { service, args, models: file.models };
+
+    ocr = new TesseractOcrOnGolem(config);
+    inputs = await expandInputs(positionals);
+
+    if (inputs.length === 0) {
+      throw new UsageError("No files matched the inputs");
+    }
+  } catch (err) {
+    if (err instanceof UsageError) {
+      console.error(err.message);
+      return 2;
+    }
+    throw err;
+  }
+
+  let aborting: Promise<void> | undefined;
+  const stop = () => {
+    if (aborting) {
+      console.error("The process is already shutting down, will force quit");
+      process.exit(1);
+    }
+    console.error("Aborting, hit ^C again to force exit");
+    aborting = ocr
+      .abort()
+      .catch((err) => console.error("Failed to abort", err));
+  };
+
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  const failed: string[] = [];
+  let completed = 0;
+  let initialized = false;
+  const guard = createOutputGuard(inputs);
+
+  try {
+    console.error("Initializing the OCR...");
+    await ocr.init();
+    initialized = true;
+    console.error("Processing %d files", inputs.length);
+
+    const queue = [...inputs];
+    const runNext = async (): Promise<void> => {
+      const input = queue.shift();
+
+      if (!input || aborting) {
+        return;
+      }
+
+      try {
+        await processFile(ocr, input, formats, guard, outputDir);
+        completed++;
+        console.error(
+          "[%d/%d] OK %s",
+          completed + failed.length,
+          inputs.length,
+          input.filePath,
+        );
+      } catch (err) {
+        failed.push(input.filePath);
+        console.error(
+          "[%d/%d] FAILED %s: %s",
+          completed + failed.length,
+          inputs.length,
+          input.filePath,
+          err instanceof Error ? err.message : err,
+        );
+      }
+
+      return runNext();
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.max(1, concurrency) }, () => runNext()),
+    );
+  } catch (err) {
+    console.error(
+      "Failed to run the OCR:",
+      err instanceof Error ? err.message : err,
+    );
+    return 1;
+  } finally {
+    // The abort already stops the OCR, and a failed init leaves nothing to shut down
+    if (aborting) {
+      await aborting;
+    } else if (initialized) {
+      await ocr
+        .shutdown()
+        .catch((err) =>
+          console.error(
+            "Failed to shut down the OCR:",
+            err instanceof Error ? err.message : err,
+          ),
+        );
+    }
+    process.off("SIGINT", stop);
+    process.off("SIGTERM", stop);
+  }
+
+  const { totalGlm } = ocr.getCostInfo();
+  console.error(
+    "Processed %d of %d files, %d failed, spent %d GLM",
+    completed,
+    inputs.length,
+    failed.length,
+    totalGlm,
+  );
+
+  return failed.length > 0 || completed < inputs.length ? 1 : 0;
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2))
+    .then((code) => (process.exitCode = code))
+    .catch((err) => {
+      console.error("Unexpected error", err);
+      process.exitCode = 2;
+    });
+}
@@ -0,0 +1,223 @@
+import {
+  Agreement,
+  DebitNote,
+  Invoice,
+  OfferProposal,
+} from "@golem-sdk/golem-js";
+
+type PricingInfo = OfferProposal["pricing"];
+
+/**
+ * The cost of a single task executed on Golem
+ */
+export interface TaskCost {
+  /** The agreement (rental) on which the task was executed */
+  agreementId: string;
+
+  /** The ID of the provider which executed the task */
+  providerId: string;
+
+  /** The name of the provider which executed the task */
+  providerName: string;
+
+  /** How long (in seconds) the task was occupying the rental */
+  durationSec: number;
+
+  /**
+   * The estimated cost of the task in GLM
+   *
+   * Computed from the provider's pricing and the duration of the task, assuming that all rented CPU threads
+   * were busy. The actual amount is settled per rental, see {@link CostInfo}.
+   */
+  estimatedGlm: number;
+}
+
+/**
+ * The costs related to a single rental (agreement with a provider)
+ */
+export interface RentalCost {
+  agreementId: string;
+
+  providerId: string;
+
+  providerName: string;
+
+  /**
+   * The amount in GLM accepted for payment to the provider so far
+   *
+   * It's based on the debit notes until the final invoice for the agreement is received.
+   */
+  amountGlm: number;
+
+  /** Tells if the final invoice was already received and the amount will not change anymore */
+  invoiced: boolean;
+
+  /** How many tasks were executed on this rental */
+  taskCount: number;
+
+  /** The sum of the estimated costs of the tasks executed on this rental */
+  estimatedTasksGlm: number;
+}
+
+/**
+ * Summary of the costs of the whole session with Golem Network
+ */
+export interface CostInfo {
+  /** The total amount in GLM accepted for payment to all providers so far */
+  totalGlm: number;
+
+  /** The sum of the estimated costs of all executed tasks */
+  estimatedTasksGlm: number;
+
+  /** Per-rental breakdown of the costs */
+  rentals: RentalCost[];
+}
+
+interface RentalState {
+  agreementId: string;
+  providerId: string;
+  providerName: string;
+  /** Latest amount due per activity, as the debit notes carry the cumulative amount */
+  debitNoteAmounts: Map<string, number>;
+  invoiceAmount?: number;
+  taskCount: number;
+  estimatedTasksGlm: number;
+}
+
+interface ProviderPricing {
+  pricing: PricingInfo;
+  cpuThreads: number;
+}
+
+/**
+ * Tracks the costs of the rentals and the tasks executed on them
+ *
+ * The amounts are taken from the debit notes and invoices sent by the providers,
+ * while the costs of the particular tasks are estimated based on the providers' pricing.
+ */
+export class CostTracker {
+  private rentals = new Map<string, RentalState>();
+
+  private pricing = new Map<string, ProviderPricing>();
+
+  /**
+   * Remembers the pricing of the provider, so that the costs of the tasks can be estimated
+   */
+  registerPricing(
+    providerId: string,
+    pricing: PricingInfo,
+    cpuThreads: number,
+  ) {
+    this.pricing.set(providerId, { pricing, cpuThreads });
+  }
+
+  registerRental(agreement: Agreement) {
+    this.getRentalState(agreement.id, agreement);
+  }
+
+  recordDebitNote(debitNote: DebitNote) {
+    const rental = this.getRentalState(debitNote.agreementId);
+    const amount = Number(debitNote.totalAmountDue);
+    const previous = rental.debitNoteAmounts.get(debitNote.activityId) ?? 0;
+
+    rental.debitNoteAmounts.set(
+      debitNote.activityId,
+      Math.max(previous, amount),
+    );
+  }
+
+  recordInvoice(invoice: Invoice) {
+    const rental = this.getRentalState(invoice.agreementId);
+    rental.invoiceAmount = Number(invoice.amount);
+  }
+
+  /**
+   * Records the execution of a task on the rental and estimates its cost
+   */
+  recordTask(agreement: Agreement, durationSec: number): TaskCost {
+    const rental = this.getRentalState(agreement.id, agreement);
+    const providerPricing = this.pricing.get(agreement.provider.id);
+
+    const estimatedGlm = providerPricing
+      ? durationSec *
+        (providerPricing.pricing.envSec +
+          providerPricing.pricing.cpuSec * providerPricing.cpuThreads)
+      : 0;
+
+    rental.taskCount++;
+    rental.estimatedTasksGlm += estimatedGlm;
+
+    return {
+      agreementId: agreement.id,
+      providerId: rental.providerId,
+      providerName: rental.providerName,
+      durationSec,
+      estimatedGlm,
+    };
+  }
+
+  getCostInfo(): CostInfo {
+    const rentals = [...this.rentals.values()].map(
+      (rental): RentalCost => ({
+        agreementId: rental.agreementId,
+        providerId: rental.providerId,
+        providerName: rental.providerName,
+        amountGlm: this.getRentalAmount(rental),
+        invoiced: rental.invoiceAmount !== undefined,
+        taskCount: rental.taskCount,
+        estimatedTasksGlm: rental.estimatedTasksGlm,
+      }),
+    );
+
+    return {
+      totalGlm: rentals.reduce((sum, r) => sum + r.amountGlm, 0),
+      estimatedTasksGlm: rentals.reduce(
+        (sum, r) => sum + r.estimatedTasksGlm,
+        0,
+      ),
+      rentals,
+    };
+  }
+
+  /**
+   * The amount spent so far, used to enforce the spending cap
+   *
+   * As the debit notes arrive with a delay, the higher of the accepted and the estimated amount is used.
+   */
+  getTotalSpend(): number {
+    const { totalGlm, estimatedTasksGlm } = this.getCostInfo();
+    return Math.max(totalGlm, estimatedTasksGlm);
+  }
+
+  private getRentalAmount(rental: RentalState) {
+    if (rental.invoiceAmount !== undefined) {
+      return rental.invoiceAmount;
+    }
+
+    return [...rental.debitNoteAmounts.values()].reduce(
+      (sum, amount) => sum + amount,
+      0,
+    );
+  }
+
+  private getRentalState(agreementId: string, agreement?: Agreement) {
+    let rental = this.rentals.get(agreementId);
+
+    if (!rental) {
+      rental = {
+        agreementId,
+        providerId: agreement?.provider.id ?? "unknown",
+        providerName: agreement?.provider.name ?? "unknown",
+        debitNoteAmounts: new Map(),
+        taskCount: 0,
+        estimatedTasksGlm: 0,
+      };
+      this.rentals.set(agreementId, rental);
+    } else if (agreement && rental.providerId === "unknown") {
+      rental.providerId = agreement.provider.id;
+      rental.providerName = agreement.provider.name;
+    }
+
+    return rental;
+  }
+}
@@ -0,0 +1,396 @@
+import * as fs from "fs";
+import path from "path";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { OcrResult } from "./ocr-result";
+import { OcrInputError } from "./errors";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Splits multi-page documents into separate single-page images which can be processed independently
+ */
+export interface PageSplitter {
+  /**
+   * Tells if the splitter is able to handle the file
+   *
+   * @param sourcePath - The path to the source document
+   * @param header - The first bytes of the source document, useful to detect the file type
+   */
+  supports(sourcePath: string, header: Buffer): boolean;
+
+  /**
+   * Splits the document into pages
+   *
+   * @param sourcePath - The path to the source document
+   * @param outputDir - A temporary directory where the page files can be written to
+   *
+   * @returns The paths to the page files in the order of the pages in the document
+   */
+  split(sourcePath: string, outputDir: string): Promise<string[]>;
+}
+
+/** The result of the OCR of a single page of a document */
+export interface DocumentPageResult {
+  /** 1-based index of the page within the document */
+  pageNum: number;
+
+  /** The OCR result, present when the page was processed successfully */
+  result?: OcrResult;
+
+  /** The reason of the failure, present when the page could not be processed */
+  error?: Error;
+}
+
+/** The result of the OCR of a multi-page document */
+export interface DocumentResult {
+  /** Per-page results in the order of the pages in the document */
+  pages: DocumentPageResult[];
+
+  /**
+   * The text of the pages separated with form-feed characters like Tesseract does, the failed pages are empty
+   */
+  text: string;
+
+  /**
+   * The searchable PDF with all successfully processed pages merged in the document order, present when `pdf` is
+   * among the requested output formats
+   */
+  pdf?: Buffer;
+
+  /** Page numbers of the pages which failed to process */
+  failedPages: number[];
+
+  /** The sum of the estimated costs (in GLM) of the OCR of all pages */
+  estimatedCostGlm: number;
+}
+
+const TIFF_TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  6: 1, // SBYTE
+  7: 1, // UNDEFINED
+  8: 2, // SSHORT
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+  11: 4, // FLOAT
+  12: 8, // DOUBLE
+  13: 4, // IFD
+};
+
+const TIFF_TAG_STRIP_OFFSETS = 273;
+const TIFF_TAG_STRIP_BYTE_COUNTS = 279;
+const TIFF_TAG_TILE_OFFSETS = 324;
+const TIFF_TAG_TILE_BYTE_COUNTS = 325;
+
+/**
+ * Tags pointing to other structures within the file, which would be invalid after copying a single page
+ */
+const TIFF_DROPPED_TAGS = new Set([
+  330, // SubIFDs
+  513, // JPEGInterchangeFormat
+  514, // JPEGInterchangeFormatLength
+  34665, // Exif IFD
+  34853, // GPS IFD
+  40965, // Interoperability IFD
+]);
+
+/** The types of the values of the strip and tile offsets and byte counts: SHORT and LONG */
+const TIFF_OFFSET_TYPES = new Set([3, 4]);
+
+const malformedTiff = (sourcePath: string) =>
+  new OcrInputError(`The TIFF file ${sourcePath} is truncated or malformed`);
+
+interface TiffEntry {
+  tag: number;
+  type: number;
+  count: number;
+  value: Buffer;
+}
+
+/**
+ * Splits multi-frame TIFF files into single-frame TIFF files
+ *
+ * The splitting is done by copying the image file directories and the image data without decoding them.
+ * BigTIFF files are not supported.
+ */
+export class TiffPageSplitter implements PageSplitter {
+  supports(_sourcePath: string, header: Buffer): boolean {
+    const magic = header.subarray(0, 4).toString("latin1");
+    return magic === "II*\0" || magic === "MM\0*";
+  }
+
+  async split(sourcePath: string, outputDir: string): Promise<string[]> {
+    const data = await fs.promises.readFile(sourcePath);
+    const le = data.toString("latin1", 0, 2) === "II";
+
+    const assertInFile = (off: number, size: number) => {
+      if (off + size > data.length) {
+        throw malformedTiff(sourcePath);
+      }
+    };
+    const u16 = (off: number) => {
+      assertInFile(off, 2);
+      return le ? data.readUInt16LE(off) : data.readUInt16BE(off);
+    };
+    const u32 = (off: number) => {
+      assertInFile(off, 4);
+      return le ? data.readUInt32LE(off) : data.readUInt32BE(off);
+    };
+
+    if (u16(2) !== 42) {
+      throw new OcrInputError(
+        `The file ${sourcePath} is not a supported TIFF file`,
+      );
+    }
+
+    const ifds: TiffEntry[][] = [];
+    const visited = new Set<number>();
+
+    let ifdOffset = u32(4);
+    while (ifdOffset !== 0 && !visited.has(ifdOffset)) {
+      visited.add(ifdOffset);
+
+      const entryCount = u16(ifdOffset);
+      const entries: TiffEntry[] = [];
+
+      for (let i = 0; i < entryCount; i++) {
+        const entryOffset = ifdOffset + 2 + i * 12;
+        const tag = u16(entryOffset);
+        const type = u16(entryOffset + 2);
+        const count = u32(entryOffset + 4);
+        const size = (TIFF_TYPE_SIZES[type] ?? 1) * count;
+        const valueOffset = size <= 4 ? entryOffset + 8 : u32(entryOffset + 8);
+        assertInFile(valueOffset, size);
+
+        entries.push({
+          tag,
+          type,
+          count,
+          value: data.subarray(valueOffset, valueOffset + size),
+        });
+      }
+
+      ifds.push(entries);
+      ifdOffset = u32(ifdOffset + 2 + entryCount * 12);
+    }
+
+    if (ifds.length <= 1) {
+      return [sourcePath];
+    }
+
+    const baseName = path.basename(sourcePath, path.extname(sourcePath));
+
+    return Promise.all(
+      ifds.map(async (entries, idx) => {
+        const pagePath = path.join(outputDir, `${baseName}-${idx + 1}.tif`);
+        await fs.promises.writeFile(
+          pagePath,
+          this.buildSinglePage(sourcePath, data, entries, le),
+        );
+        return pagePath;
+      }),
+    );
+  }
+
+  /**
+   * Builds a standalone TIFF file out of a single image file directory of the source file
+   *
+   * @throws OcrInputError if the image data lies outside of the source file
+   */
+  private buildSinglePage(
+    sourcePath: string,
+    source: Buffer,
+    sourceEntries: TiffEntry[],
+    le: boolean,
+  ): Buffer {
+    const readValues = (entry: TiffEntry) => {
+      const values: number[] = [];
+      for (let i = 0; i < entry.count; i++) {
+        if (entry.type === 3) {
+          values.push(
+            le
+              ? entry.value.readUInt16LE(i * 2)
+              : entry.value.readUInt16BE(i * 2),
+          );
+        } else {
+          values.push(
+            le
+              ? entry.value.readUInt32LE(i * 4)
+              : entry.value.readUInt32BE(i * 4),
+          );
+        }
+      }
+      return values;
+    };
+
+    const entries = sourceEntries.filter((e) => !TIFF_DROPPED_TAGS.has(e.tag));
+    const offsetsEntry = entries.find(
+      (e) =>
+        e.tag === TIFF_TAG_STRIP_OFFSETS || e.tag === TIFF_TAG_TILE_OFFSETS,
+    );
+    const countsEntry = entries.find(
+      (e) =>
+        e.tag === TIFF_TAG_STRIP_BYTE_COUNTS ||
+        e.tag === TIFF_TAG_TILE_BYTE_COUNTS,
+    );
+
+    if (!offsetsEntry || !countsEntry) {
+      throw new OcrInputError("The TIFF page does not contain any image data");
+    }
+
+    if (
+      !TIFF_OFFSET_TYPES.has(offsetsEntry.type) ||
+      !TIFF_OFFSET_TYPES.has(countsEntry.type) ||
+      offsetsEntry.count !== countsEntry.count
+    ) {
+      throw malformedTiff(sourcePath);
+    }
+
+    const srcOffsets = readValues(offsetsEntry);
+    const byteCounts = readValues(countsEntry);
+
+    if (srcOffsets.some((off, i) => off + byteCounts[i] > source.length)) {
+      throw malformedTiff(sourcePath);
+    }
+
+    // The offsets are always written as LONG values
+    offsetsEntry.type = 4;
+    offsetsEntry.value = Buffer.alloc(srcOffsets.length * 4);
+
+    const ifdSize = 2 + entries.length * 12 + 4;
+    let cursor = 8 + ifdSize;
+
+    const extraOffsets = new Map<TiffEntry, number>();
+    for (const entry of entries) {
+      if (entry.value.length > 4) {
+        cursor += cursor % 2;
+        extraOffsets.set(entry, cursor);
+        cursor += entry.value.length;
+      }
+    }
+
+    cursor += cursor % 2;
+    const imageDataStart = cursor;
+    const imageDataSize = byteCounts.reduce((sum, c) => sum + c, 0);
+
+    const out = Buffer.alloc(imageDataStart + imageDataSize);
+    const w16 = (val: number, off: number) =>
+      le ? out.writeUInt16LE(val, off) : out.writeUInt16BE(val, off);
+    const w32 = (val: number, off: number) =>
+      le ? out.writeUInt32LE(val, off) : out.writeUInt32BE(val, off);
+
+    // Copy the image data and compute the new offsets
+    let dataCursor = imageDataStart;
+    srcOffsets.forEach((srcOffset, i) => {
+      source.copy(out, dataCursor, srcOffset, srcOffset + byteCounts[i]);
+      if (le) {
+        offsetsEntry.value.writeUInt32LE(dataCursor, i * 4);
+      } else {
+        offsetsEntry.value.writeUInt32BE(dataCursor, i * 4);
+      }
+      dataCursor += byteCounts[i];
+    });
+
+    // Header
+    out.write(le ? "II" : "MM", 0, "latin1");
+    w16(42, 2);
+    w32(8, 4);
+
+    // The image file directory
+    w16(entries.length, 8);
+    entries.forEach((entry, i) => {
+      const entryOffset = 10 + i * 12;
+      w16(entry.tag, entryOffset);
+      w16(entry.type, entryOffset + 2);
+      w32(entry.count, entryOffset + 4);
+
+      const extraOffset = extraOffsets.get(entry);
+      if (extraOffset !== undefined) {
+        w32(extraOffset, entryOffset + 8);
+        entry.value.copy(out, extraOffset);
+      } else {
+        entry.value.copy(out, entryOffset + 8);
+      }
+    });
+    w32(0, 10 + entries.length * 12);
+
+    return out;
+  }
+}
+
+/**
+ * Rasterizes PDF documents into PNG images, one per page
+ *
+ * Uses the `pdftoppm` binary from poppler-utils, which has to be installed on the machine running the library.
+ */
+export class PdfPageSplitter implements PageSplitter {
+  constructor(
+    private readonly options: {
+      /** The resolution used to rasterize the pages */
+      dpi?: number;
+      /** The path to the `pdftoppm` binary */
+      command?: string;
+    } = {},
+  ) {}
+
+  supports(_sourcePath: string, header: Buffer): boolean {
+    return header.subarray(0, 5).toString("latin1") === "%PDF-";
+  }
+
+  async split(sourcePath: string, outputDir: string): Promise<string[]> {
+    const prefix = path.join(outputDir, "page");
+
+    try {
+      await execFileAsync(this.options.command ?? "pdftoppm", [
+        "-r",
+        String(this.options.dpi ?? 300),
+        "-png",
+        sourcePath,
+        prefix,
+      ]);
+    } catch (err) {
+      throw new OcrInputError(
+        `Failed to rasterize the PDF ${sourcePath}, make sure that pdftoppm is installed: ${err}`,
+      );
+    }
+
+    const pageNumber = (file: string) =>
+      Number(/-(\d+)\.png$/.exec(file)?.[1] ?? 0);
+
+    const files = await fs.promises.readdir(outputDir);
+
+    return files
+      .filter((file) => file.startsWith("page-") && file.endsWith(".png"))
+      .sort((a, b) => pageNumber(a) - pageNumber(b))
+      .map((file) => path.join(outputDir, file));
+  }
+}
+
+/**
+ * The splitters used when none are provided in the configuration
+ */
+export const DEFAULT_PAGE_SPLITTERS: PageSplitter[] = [
+  new TiffPageSplitter(),
+  new PdfPageSplitter(),
+];
+
+/**
+ * Reads the first bytes of the file to detect its type
+ */
+export async function readFileHeader(
+  sourcePath: string,
+  length = 16,
+): Promise<Buffer> {
+  const handle = await fs.promises.open(sourcePath, "r");
+  try {
+    const header = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(header, 0, length, 0);
+    return header.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,181 @@
+import { CommandResult, OcrWorker, WorkerProvider } from "./backend";
+
+/**
+ * The base class of all errors thrown by the OCR, use it to tell them apart from the other errors
+ */
+export class OcrError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OcrError";
+  }
+}
+
+/**
+ * Thrown when the OCR is used before {@link TesseractOcrOnGolem.init} completes or after it was shut down
+ */
+export class OcrNotInitializedError extends OcrError {
+  constructor(message = "The Tesseract On Golem is not initialized yet.") {
+    super(message);
+    this.name = "OcrNotInitializedError";
+  }
+}
+
+/**
+ * Thrown when the input image or document does not exist, is malformed or its format is not supported
+ */
+export class OcrInputError extends OcrError {
+  constructor(message: string) {
+    super(message);
+    this.name = "OcrInputError";
+  }
+}
+
+/**
+ * Thrown when the Tesseract args, the requested output formats or the custom models are not valid
+ */
+export class OcrInvalidArgsError extends OcrError {
+  constructor(message: string) {
+    super(message);
+    this.name = "OcrInvalidArgsError";
+  }
+}
+
+/**
+ * The stage of the OCR request which took too long
+ *
+ * - `queue` - waiting for a free worker
+ * - `execution` - running the task on the worker
+ */
+export type OcrTimeoutPhase = "queue" | "execution";
+
+/**
+ * Thrown when the OCR request didn't complete within the configured time
+ */
+export class OcrTimeoutError extends OcrError {
+  constructor(
+    readonly phase: OcrTimeoutPhase,
+    readonly timeoutSec: number,
+  ) {
+    super(
+      phase === "queue"
+        ? `The OCR request did not get a worker within ${timeoutSec} seconds`
+        : `The OCR request did not complete within ${timeoutSec} seconds`,
+    );
+    this.name = "OcrTimeoutError";
+  }
+}
+
+/**
+ * Thrown when the OCR request was cancelled with its `AbortSignal`, or the whole OCR was aborted
+ */
+export class OcrAbortedError extends OcrError {
+  constructor(
+    message = "The OCR request was aborted",
+    /** The reason provided when aborting the signal */
+    readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = "OcrAbortedError";
+  }
+}
+
+/**
+ * Thrown when no new work is accepted because the spending cap of the session has been reached
+ */
+export class OcrBudgetExceededError extends OcrError {
+  constructor(
+    readonly spendingCapGlm: number,
+    readonly spentGlm: number,
+  ) {
+    super(
+      `No new task will be accepted because the spending cap of ${spendingCapGlm} GLM has been reached (spent ${spentGlm} GLM)`,
+    );
+    this.name = "OcrBudgetExceededError";
+  }
+}
+
+/**
+ * Thrown when the worker failed to perform an operation, like uploading the image or downloading the results
+ */
+export class OcrProviderError extends OcrError {
+  constructor(
+    message: string,
+    /** The provider which runs the worker */
+    readonly provider: WorkerProvider,
+    /** The agreement with the provider, when running on the Golem Network */
+    readonly agreementId?: string,
+  ) {
+    super(message);
+    this.name = "OcrProviderError";
+  }
+}
+
+/**
+ * Thrown when Tesseract (or another command) failed on the worker, carrying its outputs for the diagnostics
+ */
+export class OcrExecutionError extends OcrProviderError {
+  /** The standard output of the command */
+  readonly stdout: string;
+
+  /** The standard error output of the command */
+  readonly stderr: string;
+
+  /** The exit code of the command, if known */
+  readonly exitCode?: number;
+
+  constructor(
+    message: string,
+    details: {
+      provider: WorkerProvider;
+      agreementId?: string;
+      stdout: string;
+      stderr: string;
+      exitCode?: number;
+    },
+  ) {
+    super(message, details.provider, details.agreementId);
+    this.name = "OcrExecutionError";
+    this.stdout = details.stdout;
+    this.stderr = details.stderr;
+    this.exitCode = details.exitCode;
+  }
+
+  /**
+   * Creates the error from the outcome of the command executed on the worker
+   */
+  static fromCommand(
+    message: string,
+    worker: OcrWorker,
+    result: CommandResult,
+  ) {
+    const stderr = result.stderr.trim();
+
+    return new OcrExecutionError(
+      stderr ? `${message}: ${stderr.split("\n")[0]}` : message,
+      {
+        provider: worker.provider,
+        agreementId: worker.agreementId,
+        stdout: result.stdout,
+        stderr: result.stderr,
+        exitCode: result.exitCode,
+      },
+    );
+  }
+}
+
+/**
+ * Thrown when the providers which executed the same request did not agree on its outputs, see
+ * {@link VerificationConfig}
+ */
+export class OcrVerificationError extends OcrError {
+  constructor(
+    message: string,
+    /** The providers which executed the request */
+    readonly providers: WorkerProvider[],
+    /** The highest similarity between the outputs of any two providers */
+    readonly similarity: number,
+  ) {
+    super(message);
+    this.name = "OcrVerificationError";
+  }
+}
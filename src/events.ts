@@ -0,0 +1,172 @@
+import { WorkerProvider } from "./backend";
+import { VerificationOutcome } from "./verification";
+
+/**
+ * Phases which the backend goes through when it's shutting down
+ *
+ * - `draining` - waiting for the work in progress to complete
+ * - `releasingRentals` - terminating the agreements with the providers
+ * - `disconnecting` - closing the connection with the Golem Network
+ * - `stopped` - all resources are released
+ */
+export type ShutdownPhase =
+  | "draining"
+  | "releasingRentals"
+  | "disconnecting"
+  | "stopped";
+
+/**
+ * The stages of the life of {@link TesseractOcrOnGolem}
+ *
+ * - `initializing` - `init()` is in progress
+ * - `ready` - the requests are accepted
+ * - `draining` - the shutdown is in progress, the requests in flight are completed while the new ones are rejected
+ * - `stopped` - not initialized yet, or shut down
+ * - `failed` - the initialization or the shutdown failed
+ */
+export type OcrLifecycleState =
+  | "initializing"
+  | "ready"
+  | "draining"
+  | "stopped"
+  | "failed";
+
+/**
+ * Events emitted by the backends about the resources they manage
+ */
+export interface BackendEvents {
+  /** A rental was taken from the pool to execute work */
+  rentalAcquired: (event: {
+    agreementId: string;
+    provider: WorkerProvider;
+  }) => void;
+
+  /** A rental was returned to the pool after the work was done */
+  rentalReleased: (event: {
+    agreementId: string;
+    provider: WorkerProvider;
+  }) => void;
+
+  /** A rental was terminated and removed from the pool */
+  rentalDestroyed: (event: {
+    agreementId: string;
+    provider: WorkerProvider;
+    reason: string;
+  }) => void;
+
+  /** An offer from a provider did not meet the criteria */
+  proposalRejected: (event: {
+    proposalId: string;
+    providerId: string;
+    reason: string;
+  }) => void;
+
+  /** The number of rentals in the pool or the number of tasks waiting for a rental has changed */
+  poolSizeChanged: (event: {
+    size: number;
+    available: number;
+    borrowed: number;
+    /** Tasks waiting for a rental, which drive the scale-up of the pool */
+    pending: number;
+  }) => void;
+
+  /**
+   * The provider failed too many tasks, or returned too many outputs which the other providers didn't agree with, and
+   * its offers will be rejected until the block expires
+   */
+  providerBlocked: (event: {
+    provider: WorkerProvider;
+    reason: string;
+    /** The timestamp when the block expires */
+    blockedUntil: number;
+  }) => void;
+
+  /** The backend entered the next phase of the shutdown */
+  shutdownPhaseChanged: (event: { phase: ShutdownPhase }) => void;
+}
+
+/**
+ * Events emitted for each OCR task
+ *
+ * The `taskStarted` event is emitted for each attempt, so it can appear more than once when the task is retried.
+ */
+export interface TaskEvents {
+  /** The task was accepted and waits for a free worker */
+  taskQueued: (event: { taskId: string; kind: string; tenant: string }) => void;
+
+  /** A worker started executing the task */
+  taskStarted: (event: {
+    taskId: string;
+    kind: string;
+    attempt: number;
+    provider: WorkerProvider;
+    queueWaitMs: number;
+  }) => void;
+
+  /** The task completed successfully */
+  taskSucceeded: (event: {
+    taskId: string;
+    kind: string;
+    provider: WorkerProvider;
+    queueWaitMs: number;
+    durationMs: number;
+  }) => void;
+
+  /** The result of the task was found in the cache, so it was not executed */
+  taskCacheHit: (event: {
+    kind: string;
+    tenant: string;
+    /** The cache key, which identifies the image and the settings of the OCR */
+    key: string;
+    /** The estimated cost of the original execution which didn't have to be paid again */
+    savedGlm: number;
+  }) => void;
+
+  /**
+   * The task was executed on multiple providers and their outputs were compared, see {@link VerificationConfig}
+   *
+   * Emitted before the outcome of the task is returned, or before it fails when the providers didn't agree.
+   */
+  taskVerified: (
+    event: {
+      kind: string;
+      tenant: string;
+    } & VerificationOutcome,
+  ) => void;
+
+  /** The task failed, after all retries */
+  taskFailed: (event: {
+    taskId: string;
+    kind: string;
+    /** The provider of the last attempt, if any attempt was started */
+    provider?: WorkerProvider;
+    durationMs: number;
+    error: Error;
+  }) => void;
+}
+
+/**
+ * Events about the lifecycle of {@link TesseractOcrOnGolem}
+ */
+export interface LifecycleEvents {
+  /** The OCR moved to the next stage of its life, see {@link OcrLifecycleState} */
+  stateChanged: (event: {
+    state: OcrLifecycleState;
+    previous: OcrLifecycleState;
+  }) => void;
+}
+
+export type TesseractOcrEvents = BackendEvents & TaskEvents & LifecycleEvents;
+
+/**
+ * The names of the events emitted by the backends, used to forward them
+ */
+export const BACKEND_EVENT_NAMES: (keyof BackendEvents)[] = [
+  "rentalAcquired",
+  "rentalReleased",
+  "rentalDestroyed",
+  "proposalRejected",
+  "poolSizeChanged",
+  "providerBlocked",
+  "shutdownPhaseChanged",
+];
@@ -0,0 +1,231 @@
+import * as fs from "fs";
+import {
+  CommandResult,
+  OcrBackend,
+  OcrWorker,
+  WorkerProvider,
+  WorkerSetupHook,
+  WorkOptions,
+  WorkResult,
+} from "./backend";
+import { createCancellationScope, raceWithSignal } from "./cancellation";
+import { OcrNotInitializedError, OcrProviderError } from "./errors";
+
+/**
+ * A command received by the {@link FakeBackend}
+ */
+export interface FakeCommand {
+  executable: string;
+
+  args: string[];
+
+  /** The provider which "executes" the command */
+  provider: WorkerProvider;
+
+  /** The files which were uploaded or produced so far on the fake worker */
+  files: ReadonlyMap<string, Buffer>;
+}
+
+/**
+ * The response of the scripted handler to a command
+ */
+export interface FakeCommandOutcome {
+  /** Defaults to 0, any other value marks the command as failed */
+  exitCode?: number;
+
+  stdout?: string;
+
+  stderr?: string;
+
+  /** Files to create on the fake worker, for example the outputs produced by Tesseract */
+  files?: Record<string, string | Buffer>;
+}
+
+/**
+ * Decides how the fake worker responds to a command
+ *
+ * Throwing from the handler simulates a failure of the provider.
+ */
+export type FakeCommandHandler = (
+  command: FakeCommand,
+) => FakeCommandOutcome | Promise<FakeCommandOutcome>;
+
+export interface FakeBackendConfig {
+  /** Scripts the responses to the commands */
+  onCommand: FakeCommandHandler;
+
+  /**
+   * The providers which are used in a round-robin fashion for consecutive tasks, skipping the ones excluded by
+   * the task
+   *
+   * @default a single provider with ID "fake"
+   */
+  providers?: WorkerProvider[];
+}
+
+class FakeWorker implements OcrWorker {
+  readonly workDir = "/golem/work";
+
+  readonly files = new Map<string, Buffer>();
+
+  constructor(
+    readonly provider: WorkerProvider,
+    private readonly backend: FakeBackend,
+    private readonly handler: FakeCommandHandler,
+  ) {}
+
+  async uploadFile(localPath: string, remotePath: string) {
+    this.files.set(remotePath, await fs.promises.readFile(localPath));
+  }
+
+  async uploadData(data: Uint8Array, remotePath: string) {
+    this.files.set(remotePath, Buffer.from(data));
+  }
+
+  async downloadData(remotePath: string) {
+    const data = this.files.get(remotePath);
+
+    if (!data) {
+      throw new OcrProviderError(
+        `The file ${remotePath} does not exist on the worker`,
+        this.provider,
+      );
+    }
+
+    return data;
+  }
+
+  async run(executable: string, args: string[]): Promise<CommandResult> {
+    const command = { executable, args, provider: this.provider };
+    this.backend.commands.push(command);
+
+    const outcome = await this.handler({ ...command, files: this.files });
+
+    for (const [filePath, content] of Object.entries(outcome.files ?? {})) {
+      this.files.set(filePath, Buffer.from(content));
+    }
+
+    const exitCode = outcome.exitCode ?? 0;
+
+    return {
+      ok: exitCode === 0,
+      exitCode,
+      stdout: outcome.stdout ?? "",
+      stderr: outcome.stderr ?? "",
+    };
+  }
+
+  async deleteFiles(remotePaths: string[]) {
+    remotePaths.forEach((remotePath) => this.files.delete(remotePath));
+  }
+}
+
+/**
+ * A scriptable in-process backend meant for unit testing the code integrating with the OCR
+ *
+ * No Tesseract is executed, the responses are provided by the handler from the configuration. Each provider
+ * acts as a single rental, so the files left on its worker are visible to the following tasks.
+ */
+export class FakeBackend implements OcrBackend {
+  /** All commands received by the backend, in the order of execution */
+  readonly commands: Omit<FakeCommand, "files">[] = [];
+
+  /** The providers reported with {@link reportMismatch}, in the order of the reports */
+  readonly mismatches: WorkerProvider[] = [];
+
+  private readonly providers: WorkerProvider[];
+
+  private taskCount = 0;
+
+  private stopped = false;
+
+  private readonly setupHooks: WorkerSetupHook[] = [];
+
+  /** The workers of the providers, set up when the provider gets its first task */
+  private readonly workers = new Map<string, Promise<FakeWorker>>();
+
+  constructor(private readonly config: FakeBackendConfig) {
+    this.providers = config.providers ?? [{ id: "fake", name: "fake" }];
+  }
+
+  addSetupHook(hook: WorkerSetupHook) {
+    this.setupHooks.push(hook);
+  }
+
+  async start() {
+    this.stopped = false;
+  }
+
+  async runWork<T>(
+    task: (worker: OcrWorker) => Promise<T>,
+    options: WorkOptions = {},
+  ): Promise<WorkResult<T>> {
+    if (this.stopped) {
+      throw new OcrNotInitializedError(
+        "No new task will be accepted, the backend is stopped",
+      );
+    }
+
+    const candidates = this.providers.filter(
+      (p) => !options.excludeProviders?.includes(p.id),
+    );
+
+    if (candidates.length === 0) {
+      throw new OcrProviderError(
+        "None of the providers is allowed to execute the work",
+        this.providers[0],
+      );
+    }
+
+    const provider = candidates[this.taskCount++ % candidates.length];
+
+    // There's no queue, the workers are always available
+    const scope = createCancellationScope(
+      "execution",
+      options.executionTimeoutSec,
+      [options.signal],
+    );
+
+    try {
+      const execute = async () => task(await this.getWorker(provider));
+      return { result: await raceWithSignal(execute(), scope.signal) };
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  reportMismatch(provider: WorkerProvider) {
+    this.mismatches.push(provider);
+  }
+
+  async stop() {
+    this.stopped = true;
+  }
+
+  async abort() {
+    this.stopped = true;
+  }
+
+  private getWorker(provider: WorkerProvider): Promise<FakeWorker> {
+    let worker = this.workers.get(provider.id);
+
+    if (!worker) {
+      worker = this.setupWorker(
+        new FakeWorker(provider, this, this.config.onCommand),
+      );
+      this.workers.set(provider.id, worker);
+      // Let the next task retry the setup, just like a broken rental would be replaced
+      worker.catch(() => this.workers.delete(provider.id));
+    }
+
+    return worker;
+  }
+
+  private async setupWorker(worker: FakeWorker) {
+    for (const hook of this.setupHooks) {
+      await hook(worker);
+    }
+
+    return worker;
+  }
+}
@@ -0,0 +1,388 @@
+import { ExeUnit } from "@golem-sdk/golem-js";
+import * as fs from "fs";
+import * as os from "os";
+import path from "path";
+import debug, { Debugger } from "debug";
+import { EventEmitter } from "eventemitter3";
+import {
+  CommandResult,
+  OcrBackend,
+  OcrWorker,
+  WorkerPoolStatus,
+  WorkerProvider,
+  WorkerSetupHook,
+  WorkOptions,
+  WorkResult,
+} from "./backend";
+import {
+  Golem,
+  GolemApiConfig,
+  GolemMarketConfig,
+  RetryPolicy,
+  ServiceDeploymentConfig,
+} from "./golem";
+import { CostInfo } from "./cost-tracker";
+import { BackendEvents } from "./events";
+import { ProviderScoringConfig, ProviderStats } from "./provider-scoring";
+import { OcrError, OcrNotInitializedError, OcrProviderError } from "./errors";
+
+type MakeOptional<T, P extends keyof T> = Omit<T, P> & Partial<Pick<T, P>>;
+
+/** Not exported by the SDK */
+type CommandOptions = NonNullable<Parameters<ExeUnit["uploadFile"]>[2]>;
+
+/**
+ * Configuration options to use when getting compute resources from the Golem Network
+ *
+ * This configuration is concerned only with the settings which are relevant in the Tesseract OCR use-case
+ */
+export interface GolemServiceConfig {
+  api?: GolemApiConfig;
+  market: MakeOptional<GolemMarketConfig, "paymentNetwork">;
+  deploy: ServiceDeploymentConfig;
+  initTimeoutSec: number;
+  requestStartTimeoutSec: number;
+  retry?: Partial<RetryPolicy>;
+
+  /**
+   * Controls when the providers which keep failing the tasks get blocked
+   */
+  providerScoring?: ProviderScoringConfig;
+
+  /**
+   * The directory which keeps the state between the sessions: the performance of the providers and the last
+   * successfully downloaded list of the recommended providers
+   *
+   * @default ~/.tesseract-ocr-golem
+   */
+  stateDir?: string;
+}
+
+const toText = (output?: string | ArrayBuffer | null) => {
+  if (output === undefined || output === null) {
+    return "";
+  }
+
+  return typeof output === "string" ? output : Buffer.from(output).toString();
+};
+
+/** The ExeUnit reports the exit code of the failed command only in the message */
+const parseExitCode = (message?: string | null) => {
+  const match = /exit(?:ed with)? code:? (-?\d+)/i.exec(message ?? "");
+  return match ? Number(match[1]) : undefined;
+};
+
+/**
+ * Exposes the ExeUnit running the Tesseract image as a worker
+ */
+class ExeUnitWorker implements OcrWorker {
+  readonly workDir = "/golem/work";
+
+  readonly provider: WorkerProvider;
+
+  readonly agreementId: string;
+
+  private readonly options: CommandOptions;
+
+  constructor(
+    private readonly exe: ExeUnit,
+    signal?: AbortSignal,
+  ) {
+    this.provider = { id: exe.provider.id, name: exe.provider.name };
+    this.agreementId = exe.activity.agreement.id;
+    this.options = { signalOrTimeout: signal };
+  }
+
+  async uploadFile(localPath: string, remotePath: string) {
+    const res = await this.exe.uploadFile(localPath, remotePath, this.options);
+    if (res.result !== "Ok") {
+      throw new OcrProviderError(
+        `Failed to upload ${localPath} to Golem`,
+        this.provider,
+        this.agreementId,
+      );
+    }
+  }
+
+  async uploadData(data: Uint8Array, remotePath: string) {
+    const res = await this.exe.uploadData(data, remotePath, this.options);
+    if (res.result !== "Ok") {
+      throw new OcrProviderError(
+        `Failed to upload data to ${remotePath} on Golem`,
+        this.provider,
+        this.agreementId,
+      );
+    }
+  }
+
+  async downloadData(remotePath: string) {
+    const res = await this.exe.downloadData(remotePath, this.options);
+    if (res.result !== "Ok" || !res.data) {
+      throw new OcrProviderError(
+        `Failed to download ${remotePath} from Golem`,
+        this.provider,
+        this.agreementId,
+      );
+    }
+    return Buffer.from(res.data);
+  }
+
+  async run(executable: string, args: string[]): Promise<CommandResult> {
+    const res = await this.exe.run(executable, args, this.options);
+
+    return {
+      ok: res.result === "Ok",
+      exitCode: res.result === "Ok" ? 0 : parseExitCode(res.message),
+      stdout: toText(res.stdout),
+      stderr: toText(res.stderr) || (res.message ?? ""),
+    };
+  }
+
+  async deleteFiles(remotePaths: string[]) {
+    if (remotePaths.length > 0) {
+      await this.exe.run("rm", ["-f", ...remotePaths], this.options);
+    }
+  }
+}
+
+/**
+ * Runs the OCR on the compute resources rented from the Golem Network
+ */
+export class GolemBackend implements OcrBackend {
+  readonly events = new EventEmitter<BackendEvents>();
+
+  private golem?: Golem;
+
+  private readonly logger: Debugger;
+
+  private readonly setupHooks: WorkerSetupHook[] = [];
+
+  constructor(private readonly config: GolemServiceConfig) {
+    this.logger = debug("tesseract");
+  }
+
+  addSetupHook(hook: WorkerSetupHook) {
+    this.setupHooks.push(hook);
+  }
+
+  async start() {
+    const apiKey = process.env["GOLEM_API_KEY"];
+
+    if (apiKey === undefined) {
+      throw new Error(
+        "You didn't specify the Golem API key in the config object or GOLEM_API_KEY environment setting",
+      );
+    }
+
+    const API_DEFAULTS: Pick<GolemApiConfig, "key" | "url"> = {
+      key: apiKey,
+      url: process.env["GOLEM_API_URL"] ?? "http://localhost:7465",
+    };
+
+    const MARKET_DEFAULTS: Pick<GolemMarketConfig, "paymentNetwork"> = {
+      paymentNetwork: process.env["GOLEM_PAYMENT_NETWORK"] ?? "holesky",
+    };
+
+    const marketConfig: GolemMarketConfig = {
+      ...MARKET_DEFAULTS,
+      ...this.config.market,
+    };
+
+    const stateDir =
+      this.config.stateDir ?? path.join(os.homedir(), ".tesseract-ocr-golem");
+
+    if (marketConfig.withProviders === undefined) {
+      marketConfig.withProviders = await this.fetchRecommendedProviders(
+        marketConfig.paymentNetwork,
+        path.join(
+          stateDir,
+          `provider-whitelist-${marketConfig.paymentNetwork}.json`,
+        ),
+      );
+    }
+
+    this.golem = new Golem(
+      {
+        api: {
+          ...API_DEFAULTS,
+          ...this.config.api,
+        },
+        requestStartTimeoutSec: this.config.requestStartTimeoutSec,
+        deploy: this.config.deploy,
+        market: marketConfig,
+        retry: this.config.retry,
+        providerScoring: this.config.providerScoring,
+        providerStatsFile: path.join(
+          stateDir,
+          `provider-stats-${marketConfig.paymentNetwork}.json`,
+        ),
+        setup:
+          this.setupHooks.length > 0
+            ? (exe) => this.setupWorker(new ExeUnitWorker(exe))
+            : undefined,
+      },
+      this.events,
+    );
+
+    await this.golem.start();
+  }
+
+  async runWork<T>(
+    task: (worker: OcrWorker) => Promise<T>,
+    options?: WorkOptions,
+  ): Promise<WorkResult<T>> {
+    if (!this.golem) {
+      throw new OcrNotInitializedError("The Golem backend is not started yet.");
+    }
+
+    const { result, cost } = await this.golem.runWorkWithCost(
+      (exe, signal) => task(new ExeUnitWorker(exe, signal)),
+      options,
+    );
+
+    if (result === undefined) {
+      throw new OcrError("Failed to run the OCR on Golem");
+    }
+
+    return { result, cost };
+  }
+
+  getCostInfo(): CostInfo {
+    if (!this.golem) {
+      throw new OcrNotInitializedError("The Golem backend is not started yet.");
+    }
+
+    return this.golem.getCostInfo();
+  }
+
+  getPoolStatus(): WorkerPoolStatus {
+    if (!this.golem) {
+      throw new OcrNotInitializedError("The Golem backend is not started yet.");
+    }
+
+    return this.golem.getPoolStatus();
+  }
+
+  reportMismatch(provider: WorkerProvider) {
+    this.golem?.reportMismatch(provider);
+  }
+
+  /**
+   * Returns how the providers performed in this and the previous sessions
+   */
+  getProviderStats(): ProviderStats[] {
+    if (!this.golem) {
+      throw new OcrNotInitializedError("The Golem backend is not started yet.");
+    }
+
+    return this.golem.getProviderStats();
+  }
+
+  async stop() {
+    await this.golem?.stop();
+  }
+
+  async abort() {
+    await this.golem?.abort();
+  }
+
+  private async setupWorker(worker: OcrWorker) {
+    this.logger("Setting up the rental on provider %s", worker.provider.name);
+
+    for (const hook of this.setupHooks) {
+      await hook(worker);
+    }
+  }
+
+  /**
+   * Since the network can contain broken or failing providers, we make use of the public whitelist of validated
+   * providers to increase the chance for a successful conversion
+   *
+   * The list is cached, so that the last successfully downloaded one can be used when the endpoint is unreachable.
+   */
+  private async fetchRecommendedProviders(
+    paymentNetwork: string,
+    cacheFile: string,
+  ) {
+    this.logger(
+      "Downloading recommended provider list for payment network %s",
+      paymentNetwork,
+    );
+
+    const FETCH_TIMEOUT_SEC = 30;
+
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(
+        () =>
+          controller.abort(
+            "Didn't download the recommended provider list on time",
+          ),
+        FETCH_TIMEOUT_SEC * 1000,
+      );
+
+      const response: Response = await fetch(
+        `https://reputation.golem.network/v1/provider-whitelist?paymentNetwork=${paymentNetwork}`,
+        {
+          headers: {
+            Accept: "application/json",
+          },
+          signal: controller.signal,
+        },
+      );
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        this.logger(
+          "The response from the recommended providers endpoint was not OK %o. Using the cached list.",
+          response.body,
+        );
+
+        return this.readCachedProviders(cacheFile);
+      }
+
+      const data: string[] = await response.json();
+
+      if (Array.isArray(data)) {
+        await this.writeCachedProviders(cacheFile, data);
+        return data;
+      } else {
+        this.logger("The response is not a valid array, will be ignored");
+        return this.readCachedProviders(cacheFile);
+      }
+    } catch (err) {
+      this.logger(
+        "There was an issue while fetching the list of recommended providers",
+      );
+      return this.readCachedProviders(cacheFile);
+    }
+  }
+
+  private async readCachedProviders(cacheFile: string): Promise<string[]> {
+    try {
+      const data = JSON.parse(await fs.promises.readFile(cacheFile, "utf-8"));
+
+      if (Array.isArray(data)) {
+        this.logger(
+          "Using the cached list of %d recommended providers",
+          data.length,
+        );
+        return data;
+      }
+    } catch (err) {
+      this.logger("There is no usable cached list of recommended providers");
+    }
+
+    return [];
+  }
+
+  private async writeCachedProviders(cacheFile: string, providers: string[]) {
+    try {
+      await fs.promises.mkdir(path.dirname(cacheFile), { recursive: true });
+      await fs.promises.writeFile(cacheFile, JSON.stringify(providers));
+    } catch (err) {
+      this.logger("Failed to cache the list of recommended providers: %s", err);
+    }
+  }
+}
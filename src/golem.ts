@@ -1,7 +1,9 @@
 import {
   ExeUnit,
   GolemNetwork,
+  OfferProposal,
   OfferProposalFilter,
+  OfferProposalSelector,
   ProposalDTO,
   ResourceRental,
   ResourceRentalPool,
@@ -11,6 +13,24 @@ import {
 import debug, { Debugger } from "debug";
 
 import GenericPool from "generic-pool";
+import { EventEmitter } from "eventemitter3";
+import { CostTracker, CostInfo, TaskCost } from "./cost-tracker";
+import { BackendEvents } from "./events";
+import { WorkerPoolStatus, WorkerProvider, WorkOptions } from "./backend";
+import {
+  OcrAbortedError,
+  OcrBudgetExceededError,
+  OcrExecutionError,
+  OcrProviderError,
+  OcrTimeoutError,
+} from "./errors";
+import { createCancellationScope, raceWithSignal } from "./cancellation";
+import {
+  classifyFailure,
+  ProviderScoreboard,
+  ProviderScoringConfig,
+  ProviderStats,
+} from "./provider-scoring";
 
 export type GolemMarketConfig = {
   /** How long you want to rent the resources in hours */
@@ -28,12 +48,29 @@ export type GolemMarketConfig = {
    * If not provided, the list will be pulled from: https://provider-health.golem.network/v1/provider-whitelist
    */
   withProviders?: string[];
+
+  /**
+   * The maximum amount of GLM which can be spent in the session
+   *
+   * Once reached, no new work will be accepted. If not provided, there's no cap besides the budget
+   * estimated from `rentHours` and `priceGlmPerHour`.
+   */
+  spendingCapGlm?: number;
 };
 
 export type ServiceDeploymentConfig = {
   /** How many instances of that service you want to have at maximum, given the idle ones will be freed to control costs  */
   maxReplicas: number;
 
+  /**
+   * How many instances should be kept even when they're idle
+   *
+   * The initialization waits until that many instances are rented. Use 0 to release all resources when there's no work.
+   *
+   * @default 1
+   */
+  minReplicas?: number;
+
   /** Specify the computation resource criteria to filter offers on the Golem Network */
   resources: Partial<{
     /**
@@ -59,6 +96,26 @@ export type ServiceDeploymentConfig = {
 
   /** The time interval (in seconds) between checks to release unused resources. */
   downscaleIntervalSec: number;
+
+  /**
+   * For how long (in seconds) an instance has to stay unused to be released, as long as there are more than
+   * {@link minReplicas} instances
+   *
+   * @default 30
+   */
+  idleTimeoutSec?: number;
+
+  /**
+   * The tag of the image to run on the providers, the image has to provide the `tesseract` binary
+   *
+   * @default "golem/tesseract:latest"
+   */
+  imageTag?: string;
+
+  /**
+   * The hash of the image to run on the providers, takes precedence over {@link imageTag}
+   */
+  imageHash?: string;
 };
 
 export type GolemApiConfig = {
@@ -79,6 +136,57 @@ export type GolemApiConfig = {
   key: string;
 };
 
+export type RetryPolicy = {
+  /** How many times the task should be attempted in total, including the first attempt */
+  maxAttempts: number;
+
+  /** The delay (in seconds) before the first retry */
+  initialDelaySec?: number;
+
+  /** The upper bound (in seconds) for the delay between the retries */
+  maxDelaySec?: number;
+
+  /** The factor by which the delay grows with each consecutive retry */
+  backoffMultiplier?: number;
+
+  /**
+   * For how long (in seconds) the provider which failed the task should not be considered when renting new resources
+   *
+   * This makes the retries land on a different provider.
+   */
+  providerCooldownSec?: number;
+
+  /**
+   * Decides if the task should be retried after the error
+   *
+   * By default, all errors are considered retryable, unless the work got aborted, timed out, exceeded the
+   * spending cap or Tesseract failed because of the input (those are never retried). The failures of the providers
+   * are reported as {@link OcrProviderError} and {@link OcrExecutionError}.
+   */
+  isRetryable?: (error: unknown) => boolean;
+};
+
+const DEFAULT_RETRY_POLICY: Required<Omit<RetryPolicy, "isRetryable">> = {
+  maxAttempts: 3,
+  initialDelaySec: 1,
+  maxDelaySec: 30,
+  backoffMultiplier: 2,
+  providerCooldownSec: 300,
+};
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+
 export interface GolemConfig {
   /**
    * Golem Node's (yagna) API related config params.
@@ -108,10 +216,43 @@ export interface GolemConfig {
    * Number of seconds to wait for a request to start
    *
    * This value has to consider time for a fresh replica to be added before the request is sent to one.
+   * The requests which don't get a rental in time fail with {@link OcrTimeoutError}. Can be overridden per request.
    */
   requestStartTimeoutSec: number;
+
+  /**
+   * Controls how the failing tasks are retried
+   *
+   * The rental on which the task failed is destroyed and the retry is executed on a different provider.
+   * Defaults to 3 attempts with exponential backoff starting with 1 second.
+   */
+  retry?: Partial<RetryPolicy>;
+
+  /**
+   * Runs once on each new rental, as soon as its exe unit is ready and before it executes any task
+   */
+  setup?: (exe: ExeUnit) => Promise<void>;
+
+  /**
+   * Controls when the providers which keep failing the tasks, or returning the outputs which the other providers
+   * don't agree with, get blocked
+   */
+  providerScoring?: ProviderScoringConfig;
+
+  /**
+   * The JSON file in which the performance of the providers is kept between the sessions
+   *
+   * If not provided, the stats are kept only in memory.
+   */
+  providerStatsFile?: string;
 }
 
+const DEFAULT_IMAGE_TAG = "golem/tesseract:latest";
+
+const DEFAULT_MIN_REPLICAS = 1;
+
+const DEFAULT_IDLE_TIMEOUT_SEC = 30;
+
 export class Golem {
   private rentalPool?: ResourceRentalPool;
 
@@ -125,10 +266,42 @@ export class Golem {
 
   private controlledResources: GenericPool.Pool<ResourceRental>;
 
-  constructor(config: GolemConfig) {
+  private readonly costs = new CostTracker();
+
+  /** Providers which recently failed to complete a task along with the time of the failure */
+  private failedProviders = new Map<string, number>();
+
+  /** The long-term performance of the providers, used to block the failing ones and to prefer the reliable ones */
+  private readonly scoreboard: ProviderScoreboard;
+
+  /** The errors of the tasks which failed because of their input, which are not retried */
+  private readonly inputFailures = new WeakSet<object>();
+
+  /** The last proposal of each provider picked for an agreement, until the rental with the provider gets created */
+  private readonly selectedProposals = new Map<string, OfferProposal>();
+
+  /** The providers excluded by each of the tasks waiting for a rental, see {@link WorkOptions.excludeProviders} */
+  private readonly excludingTasks = new Set<string[]>();
+
+  /** The rentals in the internal pool, both the idle and the borrowed ones */
+  private readonly rentals = new Set<ResourceRental>();
+
+  /** Why the rentals are destroyed, when it's not because of the idle timeout or the shutdown */
+  private destroyReasons = new WeakMap<ResourceRental, string>();
+
+  private isStopping = false;
+
+  constructor(
+    config: GolemConfig,
+    readonly events = new EventEmitter<BackendEvents>(),
+  ) {
     this.logger = debug("golem");
 
     this.config = this.applyBackwardCompatibility(config);
+    this.scoreboard = new ProviderScoreboard(
+      this.config.providerScoring,
+      this.config.providerStatsFile,
+    );
 
     this.glm = new GolemNetwork({
       api: {
@@ -140,39 +313,82 @@ export class Golem {
       },
     });
 
-    this.controlledResources = GenericPool.createPool({
-      create: async (): Promise<ResourceRental> => {
-        if (!this.rentalPool) {
-          throw new Error("The resource rental pool does not exist");
-        }
+    this.glm.payment.events.on("debitNoteAccepted", ({ debitNote }) =>
+      this.costs.recordDebitNote(debitNote),
+    );
+    this.glm.payment.events.on("invoiceAccepted", ({ invoice }) =>
+      this.costs.recordInvoice(invoice),
+    );
 
-        const rental = await this.rentalPool.acquire(
-          this.abortController.signal,
-        );
+    this.controlledResources = GenericPool.createPool(
+      {
+        create: async (): Promise<ResourceRental> => {
+          if (!this.rentalPool) {
+            throw new Error("The resource rental pool does not exist");
+          }
 
-        this.logger(
-          "Adding rental %s to the internal pool",
-          rental.agreement.id,
-        );
+          const rental = await this.rentalPool.acquire(
+            this.abortController.signal,
+          );
+
+          this.logger(
+            "Adding rental %s to the internal pool",
+            rental.agreement.id,
+          );
+          this.costs.registerRental(rental.agreement);
+          this.registerPricing(rental.agreement.provider.id);
+          this.rentals.add(rental);
+          setImmediate(() => this.emitPoolSize());
 
-        return rental;
+          return rental;
+        },
+        destroy: async (rental: ResourceRental) => {
+          this.logger(
+            "Destroying the rental %s from internal pool",
+            rental.agreement.id,
+          );
+          this.rentals.delete(rental);
+          await this.rentalPool?.destroy(rental);
+          this.events.emit("rentalDestroyed", {
+            agreementId: rental.agreement.id,
+            provider: {
+              id: rental.agreement.provider.id,
+              name: rental.agreement.provider.name,
+            },
+            reason:
+              this.destroyReasons.get(rental) ??
+              (this.isStopping
+                ? "the service is shutting down"
+                : "the rental was idle for too long"),
+          });
+          setImmediate(() => this.emitPoolSize());
+        },
       },
-      destroy: async (rental: ResourceRental) => {
-        this.logger(
-          "Destroying the rental %s from internal pool",
-          rental.agreement.id,
-        );
-        return this.rentalPool?.destroy(rental);
+      {
+        min: this.getMinReplicas(),
+        max: this.config.deploy.maxReplicas,
+        // The pool can create the rentals only once the rental pool is ready, see start()
+        autostart: false,
+        // Each task which waits for a rental makes the pool rent a new one, until maxReplicas is reached
+        evictionRunIntervalMillis:
+          this.config.deploy.downscaleIntervalSec * 1000,
+        numTestsPerEvictionRun: this.config.deploy.maxReplicas,
+        // The soft timeout keeps the minimum number of rentals, the hard one is effectively disabled
+        softIdleTimeoutMillis:
+          (this.config.deploy.idleTimeoutSec ?? DEFAULT_IDLE_TIMEOUT_SEC) *
+          1000,
+        idleTimeoutMillis: Number.MAX_SAFE_INTEGER,
       },
-    });
+    );
   }
 
   async start() {
+    await this.scoreboard.load();
     await this.glm.connect();
 
     this.rentalPool = await this.glm.manyOf({
       poolSize: {
-        min: 1,
+        min: this.getMinReplicas(),
         max: this.config.deploy.maxReplicas,
       },
       order: {
@@ -183,51 +399,461 @@ export class Golem {
             avgGlmPerHour: this.config.market.priceGlmPerHour,
           },
           offerProposalFilter: this.buildProposalFilter(),
+          offerProposalSelector: this.buildProposalSelector(),
         },
         demand: {
           workload: {
-            imageTag: "golem/tesseract:latest",
+            ...(this.config.deploy.imageHash
+              ? { imageHash: this.config.deploy.imageHash }
+              : { imageTag: this.config.deploy.imageTag ?? DEFAULT_IMAGE_TAG }),
             minMemGib: this.config.deploy.resources.minMemGib ?? 0.5,
             minCpuThreads: this.config.deploy.resources.minCpuThreads ?? 1,
             minStorageGib: this.config.deploy.resources.minStorageGib ?? 0.5,
           },
         },
       },
+      setup: this.config.setup,
     });
 
     await this.rentalPool.ready(this.abortController.signal);
+
+    this.controlledResources.start();
+    await this.controlledResources.ready();
+    this.emitPoolSize();
   }
 
   async runWork<T>(
-    task: (task: ExeUnit) => Promise<T | undefined>,
+    task: (task: ExeUnit, signal: AbortSignal) => Promise<T | undefined>,
+    options: WorkOptions = {},
   ): Promise<T | undefined> {
+    const { result } = await this.runWorkWithCost(task, options);
+    return result;
+  }
+
+  /**
+   * Runs the work just like {@link runWork}, additionally reporting the estimated cost of the task
+   *
+   * The task receives the signal which aborts when the work is cancelled or takes too long.
+   */
+  async runWorkWithCost<T>(
+    task: (task: ExeUnit, signal: AbortSignal) => Promise<T | undefined>,
+    options: WorkOptions = {},
+  ): Promise<{ result: T | undefined; cost: TaskCost }> {
     if (this.abortController.signal.aborted) {
-      throw new Error(
-        `No new task will be accepted because of the abort signal being already raised.`,
+      throw new OcrAbortedError(
+        "No new task will be accepted because of the abort signal being already raised.",
       );
     }
 
+    this.assertWithinSpendingCap();
+
+    const policy = { ...DEFAULT_RETRY_POLICY, ...this.config.retry };
+    const scope = createCancellationScope("execution", undefined, [
+      options.signal,
+      this.abortController.signal,
+    ]);
+
+    let attemptOptions = options;
+    let previousFailure: unknown;
+
     try {
-      if (this.abortController.signal.aborted) {
-        throw new Error(
-          `The task will not be served on activity because the abort signal is already raised.`,
+      for (let attempt = 1; ; attempt++) {
+        try {
+          if (scope.signal.aborted) {
+            throw scope.signal.reason;
+          }
+
+          this.assertWithinSpendingCap();
+
+          return await this.runAttempt(
+            task,
+            scope.signal,
+            attemptOptions,
+            previousFailure,
+          );
+        } catch (err) {
+          // Neither the cancellation nor the timeouts are retried, the caller gave up on the task, and the budget
+          // won't grow
+          const retryable =
+            !scope.signal.aborted &&
+            !(err instanceof OcrTimeoutError) &&
+            !(err instanceof OcrAbortedError) &&
+            !(err instanceof OcrBudgetExceededError) &&
+            !(err instanceof Object && this.inputFailures.has(err)) &&
+            (policy.isRetryable ? policy.isRetryable(err) : true);
+
+          if (attempt >= policy.maxAttempts || !retryable) {
+            this.logger("Running the task on Golem failed with error: %s", err);
+            throw err;
+          }
+
+          const delaySec = Math.min(
+            policy.initialDelaySec * policy.backoffMultiplier ** (attempt - 1),
+            policy.maxDelaySec,
+          );
+
+          this.logger(
+            "Attempt %d of %d failed, retrying in %d seconds: %s",
+            attempt,
+            policy.maxAttempts,
+            delaySec,
+            err,
+          );
+
+          // Tesseract failing with an exit code is blamed on the input only after it fails on another provider too
+          if (err instanceof OcrExecutionError && err.exitCode !== undefined) {
+            attemptOptions = {
+              ...attemptOptions,
+              excludeProviders: [
+                ...(attemptOptions.excludeProviders ?? []),
+                err.provider.id,
+              ],
+            };
+          }
+          previousFailure = err;
+
+          await sleep(delaySec * 1000, scope.signal);
+        }
+      }
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  /**
+   * Runs the task once on a rental from the pool
+   *
+   * When the task fails, the rental is destroyed instead of being returned to the pool, as it can be broken.
+   * The same happens when the task gets cancelled or times out during the execution, while the rental which arrives
+   * after the caller stopped waiting for it is returned to the pool.
+   */
+  private async runAttempt<T>(
+    task: (task: ExeUnit, signal: AbortSignal) => Promise<T | undefined>,
+    signal: AbortSignal,
+    options: WorkOptions,
+    previousFailure?: unknown,
+  ): Promise<{ result: T | undefined; cost: TaskCost }> {
+    const queueScope = createCancellationScope(
+      "queue",
+      options.queueTimeoutSec ?? this.config.requestStartTimeoutSec,
+      [signal],
+    );
+
+    let rental: ResourceRental;
+
+    try {
+      rental = await this.acquireRental(
+        queueScope.signal,
+        options.excludeProviders ?? [],
+      );
+    } finally {
+      queueScope.dispose();
+    }
+
+    this.logger("Running work with rental %s", rental.agreement.id);
+
+    const rentalInfo = {
+      agreementId: rental.agreement.id,
+      provider: {
+        id: rental.agreement.provider.id,
+        name: rental.agreement.provider.name,
+      },
+    };
+    this.events.emit("rentalAcquired", rentalInfo);
+    this.emitPoolSize();
+
+    const startedAt = Date.now();
+    const recordCost = () =>
+      this.costs.recordTask(rental.agreement, (Date.now() - startedAt) / 1000);
+
+    const executionScope = createCancellationScope(
+      "execution",
+      options.executionTimeoutSec,
+      [signal],
+    );
+
+    let result: T | undefined;
+    let taskStarted = false;
+
+    try {
+      const exe = await rental.getExeUnit(executionScope.signal);
+      taskStarted = true;
+      result = await raceWithSignal(
+        task(exe, executionScope.signal),
+        executionScope.signal,
+      );
+    } catch (caught) {
+      // Report the cancellation or the timeout instead of the errors it caused
+      const err = executionScope.signal.aborted
+        ? executionScope.signal.reason
+        : caught;
+
+      recordCost();
+
+      // The failures of the setup of the rental are the provider's fault, whatever the exit code of the commands
+      const failureType = classifyFailure(err, previousFailure);
+
+      if (taskStarted && failureType === "input" && err instanceof Object) {
+        // Tesseract did its job on the provider, the rental is fine and another provider would fail the same way
+        this.logger(
+          "Work with rental %s failed because of its input: %s",
+          rental.agreement.id,
+          err,
         );
+        this.inputFailures.add(err);
+        await this.controlledResources.release(rental);
+        this.events.emit("rentalReleased", rentalInfo);
+        this.emitPoolSize();
+        throw err;
       }
 
-      const rental = await this.controlledResources.acquire();
-      this.logger("Running work with rental %s", rental.agreement.id);
-      const exe = await rental.getExeUnit(this.abortController.signal);
-      const result = await task(exe);
-      this.logger("Finished work with rental %s", rental.agreement.id);
-      await this.controlledResources.release(rental);
+      this.logger(
+        "Work with rental %s failed, the rental will be destroyed",
+        rental.agreement.id,
+      );
 
-      return result;
-    } catch (err) {
-      console.error(err, "Running the task on Golem failed with this error");
+      // The provider is not to blame when the caller cancelled the task
+      if (!(err instanceof OcrAbortedError)) {
+        this.failedProviders.set(rental.agreement.provider.id, Date.now());
+
+        const block = this.scoreboard.recordFailure(
+          rentalInfo.provider,
+          failureType === "input" ? "execution" : failureType,
+        );
+        if (block) {
+          this.events.emit("providerBlocked", {
+            provider: rentalInfo.provider,
+            ...block,
+          });
+        }
+      }
+
+      this.destroyReasons.set(rental, `The task failed: ${err}`);
+      await this.controlledResources.destroy(rental).catch((destroyErr) => {
+        this.logger(
+          "Failed to destroy rental %s: %s",
+          rental.agreement.id,
+          destroyErr,
+        );
+      });
       throw err;
+    } finally {
+      executionScope.dispose();
+    }
+
+    const cost = recordCost();
+    this.scoreboard.recordSuccess(rentalInfo.provider, Date.now() - startedAt);
+
+    this.logger("Finished work with rental %s", rental.agreement.id);
+    await this.controlledResources.release(rental);
+    this.events.emit("rentalReleased", rentalInfo);
+    this.emitPoolSize();
+
+    return { result, cost };
+  }
+
+  /**
+   * Takes a rental from the pool, skipping the rentals of the excluded providers
+   *
+   * The skipped rentals go back to the pool right away, so that the other tasks can use them. When the pool holds
+   * the rentals of other providers, which are busy, the task waits until one of the rentals is returned. When it
+   * doesn't, the skipped rental is destroyed to make room for a new one. While the task waits, the offers of the
+   * excluded providers are picked for the new rentals only when there's no other offer, so the task fails if the new
+   * rental belongs to an excluded provider too.
+   *
+   * @throws OcrProviderError if the pool can't supply a rental of a provider other than the excluded ones.
+   */
+  private async acquireRental(
+    signal: AbortSignal,
+    excludeProviders: string[],
+  ): Promise<ResourceRental> {
+    let replaced = false;
+
+    // Each task gets its own entry, even if the tasks share the list
+    const exclusion = [...excludeProviders];
+    this.excludingTasks.add(exclusion);
+
+    try {
+      for (;;) {
+        const acquiring = this.controlledResources.acquire();
+        // Report the waiting task, it makes the pool scale up
+        this.emitPoolSize();
+
+        const rental = await raceWithSignal(acquiring, signal, (late) => {
+          this.logger(
+            "Returning rental %s which arrived after the task was given up",
+            late.agreement.id,
+          );
+          this.controlledResources.release(late).catch(() => undefined);
+        });
+
+        if (!excludeProviders.includes(rental.agreement.provider.id)) {
+          return rental;
+        }
+
+        this.logger(
+          "Skipping rental %s of the excluded provider %s",
+          rental.agreement.id,
+          rental.agreement.provider.id,
+        );
+
+        const hasOtherProviders = [...this.rentals].some(
+          (r) => !excludeProviders.includes(r.agreement.provider.id),
+        );
+
+        if (hasOtherProviders) {
+          // Listen before releasing, so that a rental returned in the meantime is not missed
+          const returned = this.waitForReturnedRental(signal);
+          await this.controlledResources.release(rental);
+          await returned;
+        } else if (!replaced) {
+          replaced = true;
+          this.destroyReasons.set(
+            rental,
+            "Making room for a rental of another provider",
+          );
+          await this.controlledResources.destroy(rental).catch(() => undefined);
+        } else {
+          await this.controlledResources.release(rental);
+          throw new OcrProviderError(
+            `The market has no offer of a provider other than ${excludeProviders.join(", ")}`,
+            {
+              id: rental.agreement.provider.id,
+              name: rental.agreement.provider.name,
+            },
+          );
+        }
+      }
+    } finally {
+      this.excludingTasks.delete(exclusion);
+    }
+  }
+
+  /**
+   * Waits until any of the borrowed rentals is returned to the pool or destroyed
+   */
+  private waitForReturnedRental(signal: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+      const cleanup = () => {
+        this.events.off("rentalReleased", onReturned);
+        this.events.off("rentalDestroyed", onReturned);
+        signal.removeEventListener("abort", onAbort);
+      };
+      const onReturned = () => {
+        cleanup();
+        resolve();
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(signal.reason);
+      };
+
+      this.events.on("rentalReleased", onReturned);
+      this.events.on("rentalDestroyed", onReturned);
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Records that the provider returned the outputs which the other providers didn't agree with, blocking it when
+   * it happens too often
+   */
+  reportMismatch(provider: WorkerProvider) {
+    const block = this.scoreboard.recordMismatch(provider);
+
+    if (block) {
+      this.events.emit("providerBlocked", { provider, ...block });
+    }
+  }
+
+  /**
+   * Returns the summary of the costs of the session so far
+   */
+  getCostInfo(): CostInfo {
+    return this.costs.getCostInfo();
+  }
+
+  /**
+   * Returns how the providers performed in this and the previous sessions
+   */
+  getProviderStats(): ProviderStats[] {
+    return this.scoreboard.getStats();
+  }
+
+  /**
+   * Returns the utilization of the rentals in the pool
+   */
+  getPoolStatus(): WorkerPoolStatus {
+    return {
+      total: this.controlledResources.size,
+      busy: this.controlledResources.borrowed,
+      idle: this.controlledResources.available,
+      pending: this.controlledResources.pending,
+    };
+  }
+
+  private emitPoolSize() {
+    this.events.emit("poolSizeChanged", {
+      size: this.controlledResources.size,
+      available: this.controlledResources.available,
+      borrowed: this.controlledResources.borrowed,
+      pending: this.controlledResources.pending,
+    });
+  }
+
+  private getMinReplicas() {
+    return Math.min(
+      this.config.deploy.minReplicas ?? DEFAULT_MIN_REPLICAS,
+      this.config.deploy.maxReplicas,
+    );
+  }
+
+  private rejectProposal(proposal: OfferProposal, reason: string) {
+    this.logger("Discarding proposal %s because %s", proposal.id, reason);
+    this.events.emit("proposalRejected", {
+      proposalId: proposal.id,
+      providerId: proposal.provider.id,
+      reason,
+    });
+    return false;
+  }
+
+  private assertWithinSpendingCap() {
+    const cap = this.config.market.spendingCapGlm;
+
+    if (cap === undefined) {
+      return;
+    }
+
+    const spent = this.costs.getTotalSpend();
+
+    if (spent >= cap) {
+      throw new OcrBudgetExceededError(cap, spent);
     }
   }
 
+  /**
+   * Tells if the provider recently failed a task and should not be used for new rentals
+   */
+  private isProviderCoolingDown(providerId: string): boolean {
+    const failedAt = this.failedProviders.get(providerId);
+
+    if (failedAt === undefined) {
+      return false;
+    }
+
+    const cooldownSec =
+      this.config.retry?.providerCooldownSec ??
+      DEFAULT_RETRY_POLICY.providerCooldownSec;
+
+    if (Date.now() - failedAt > cooldownSec * 1000) {
+      this.failedProviders.delete(providerId);
+      return false;
+    }
+
+    return true;
+  }
+
   abort() {
     this.logger("Aborting all operations on Golem");
     this.abortController.abort("The client is shutting down");
@@ -235,18 +861,24 @@ export class Golem {
   }
 
   async stop() {
+    this.isStopping = true;
     this.logger("Releasing controlled resources");
+    this.events.emit("shutdownPhaseChanged", { phase: "draining" });
     await this.controlledResources.drain();
     await this.controlledResources.clear();
     this.logger("Controlled resources released");
 
     this.logger("Closing up all rentals with Golem Network");
+    this.events.emit("shutdownPhaseChanged", { phase: "releasingRentals" });
     await this.rentalPool?.drainAndClear();
     this.logger("All rentals from Golem Network closed");
 
     this.logger("Stopping Golem integration");
+    this.events.emit("shutdownPhaseChanged", { phase: "disconnecting" });
     await this.glm.disconnect();
     this.logger("Golem integration stopped");
+    await this.scoreboard.flush();
+    this.events.emit("shutdownPhaseChanged", { phase: "stopped" });
   }
 
   /**
@@ -271,9 +903,30 @@ export class Golem {
         this.config.market.withProviders.length > 0 &&
         !this.config.market.withProviders.includes(proposal.provider.id)
       ) {
+        this.events.emit("proposalRejected", {
+          proposalId: proposal.id,
+          providerId: proposal.provider.id,
+          reason: "the provider is not on the list of allowed providers",
+        });
         return false;
       }
 
+      const blockReason = this.scoreboard.getBlockReason(proposal.provider.id);
+
+      if (blockReason) {
+        return this.rejectProposal(
+          proposal,
+          `provider ${proposal.provider.id} is blocked because ${blockReason}`,
+        );
+      }
+
+      if (this.isProviderCoolingDown(proposal.provider.id)) {
+        return this.rejectProposal(
+          proposal,
+          `provider ${proposal.provider.id} recently failed a task`,
+        );
+      }
+
       const { maxReplicas, resources } = this.config.deploy;
 
       const budget = this.getBudgetEstimate();
@@ -284,33 +937,75 @@ export class Golem {
       const withinBudget = estimate <= budgetPerReplica;
 
       if (!withinBudget) {
-        this.logger(
-          "Discarding proposal %s because it would exceed the estimated budget of %d (proposal cost %d)",
-          proposal.id,
-          budgetPerReplica,
-          estimate,
+        return this.rejectProposal(
+          proposal,
+          `it would exceed the estimated budget of ${budgetPerReplica} (proposal cost ${estimate})`,
         );
-
-        return false;
       }
 
       const dto = proposal.getDto();
       const hasDesiredThreads = this.checkCpuThreadRequirements(dto, resources);
 
       if (!hasDesiredThreads) {
-        this.logger(
-          "Discarding proposal %s because it does not satisfy the thread count requirements (min: %d, max: %d, actual: %d)",
-          resources.minCpuThreads,
-          resources.maxCpuThreads,
-          dto.cpuThreads,
+        return this.rejectProposal(
+          proposal,
+          `it does not satisfy the thread count requirements (min: ${resources.minCpuThreads}, max: ${resources.maxCpuThreads}, actual: ${dto.cpuThreads})`,
         );
-        return false;
       }
 
       return true;
     };
   }
 
+  /**
+   * Picks the offer of the most reliable and fastest provider, and the cheapest one among the equal providers
+   *
+   * The offers of the providers excluded by the tasks waiting for a rental are picked only when there's no other.
+   *
+   * The picked offer is kept until the agreement with the provider results in a rental, see {@link registerPricing}.
+   */
+  private buildProposalSelector(): OfferProposalSelector {
+    const isExcluded = (proposal: OfferProposal) =>
+      [...this.excludingTasks].some((excluded) =>
+        excluded.includes(proposal.provider.id),
+      )
+        ? 1
+        : 0;
+
+    return (proposals) => {
+      const selected = [...proposals].sort(
+        (a, b) =>
+          isExcluded(a) - isExcluded(b) ||
+          this.scoreboard.compare(a.provider.id, b.provider.id) ||
+          a.getEstimatedCost() - b.getEstimatedCost(),
+      )[0];
+
+      this.selectedProposals.set(selected.provider.id, selected);
+
+      return selected;
+    };
+  }
+
+  /**
+   * Remembers the pricing of the offer on which the agreement with the provider was made, so that the costs of
+   * the tasks executed on the rental can be estimated
+   */
+  private registerPricing(providerId: string) {
+    const proposal = this.selectedProposals.get(providerId);
+
+    if (!proposal) {
+      this.logger("The offer of provider %s is not known", providerId);
+      return;
+    }
+
+    this.selectedProposals.delete(providerId);
+    this.costs.registerPricing(
+      providerId,
+      proposal.pricing,
+      proposal.getDto().cpuThreads,
+    );
+  }
+
   private checkCpuThreadRequirements(
     dto: ProposalDTO,
     resources: ServiceDeploymentConfig["resources"],
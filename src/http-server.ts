@@ -0,0 +1,468 @@
+import http, { IncomingMessage, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import debug, { Debugger } from "debug";
+import { TesseractOcrOnGolem } from "./tesseract-ocr-on-golem";
+import { OcrOutputFormat, OUTPUT_FORMAT_EXTENSIONS } from "./ocr-result";
+import {
+  OcrAbortedError,
+  OcrBudgetExceededError,
+  OcrError,
+  OcrInputError,
+  OcrInvalidArgsError,
+  OcrNotInitializedError,
+  OcrTimeoutError,
+} from "./errors";
+
+export interface OcrHttpServerConfig {
+  /**
+   * The port to listen on, use 0 to pick a random free port
+   *
+   * @default 8080
+   */
+  port?: number;
+
+  /**
+   * The host to bind to
+   *
+   * @default "0.0.0.0"
+   */
+  host?: string;
+
+  /**
+   * The maximum size of the uploaded image in bytes
+   *
+   * @default 20 MiB
+   */
+  maxUploadBytes?: number;
+
+  /**
+   * Installs SIGINT and SIGTERM handlers which shut the server down gracefully
+   *
+   * @default true
+   */
+  handleSignals?: boolean;
+
+  /**
+   * The request header which identifies the tenant of the request for the fair scheduling
+   *
+   * @default "x-tenant"
+   */
+  tenantHeader?: string;
+
+  /**
+   * How long (in seconds) the shutdown waits for the requests in flight to complete, before they are aborted
+   *
+   * @default no limit
+   */
+  drainTimeoutSec?: number;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly statusCode: number,
+    message: string,
+    /** Additional headers of the error response */
+    readonly headers?: http.OutgoingHttpHeaders,
+  ) {
+    super(message);
+  }
+}
+
+const DEFAULT_MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+const readBody = (req: IncomingMessage, limit: number): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        // The rest of the upload is discarded, so that the client gets the response instead of a reset connection
+        req.off("data", onData);
+        req.resume();
+        chunks.length = 0;
+        reject(
+          new HttpError(413, `The upload exceeds ${limit} bytes`, {
+            Connection: "close",
+          }),
+        );
+        return;
+      }
+      chunks.push(chunk);
+    };
+
+    req.on("data", onData);
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+
+/**
+ * Extracts the first file (or the `file` field) from a `multipart/form-data` body
+ */
+const extractMultipartFile = (body: Buffer, contentType: string): Buffer => {
+  const boundaryMatch = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType);
+
+  if (!boundaryMatch) {
+    throw new HttpError(400, "The multipart boundary is missing");
+  }
+
+  const delimiter = Buffer.from(`--${boundaryMatch[1] ?? boundaryMatch[2]}`);
+  const parts: { headers: string; content: Buffer }[] = [];
+
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    const partStart = start + delimiter.length;
+    const next = body.indexOf(delimiter, partStart);
+
+    if (next === -1) {
+      break;
+    }
+
+    // Strip the CRLF after the delimiter and before the next one
+    const part = body.subarray(partStart + 2, next - 2);
+    const headerEnd = part.indexOf("\r\n\r\n");
+
+    if (headerEnd !== -1) {
+      parts.push({
+        headers: part.subarray(0, headerEnd).toString("utf-8"),
+        content: part.subarray(headerEnd + 4),
+      });
+    }
+
+    start = next;
+  }
+
+  const files = parts.filter((p) => /filename=/i.test(p.headers));
+  const file = files.find((p) => /name="file"/i.test(p.headers)) ?? files.at(0);
+
+  if (!file) {
+    throw new HttpError(400, "The multipart body does not contain any file");
+  }
+
+  return file.content;
+};
+
+const parseFormats = (value: string | null): OcrOutputFormat[] | undefined => {
+  if (!value) {
+    return undefined;
+  }
+
+  const formats = value.split(",").map((f) => f.trim());
+  const invalid = formats.filter((f) => !(f in OUTPUT_FORMAT_EXTENSIONS));
+
+  if (invalid.length > 0) {
+    throw new HttpError(
+      400,
+      `Unsupported output formats: ${invalid.join(", ")}`,
+    );
+  }
+
+  return formats as OcrOutputFormat[];
+};
+
+const parsePriority = (value: string | null): number | undefined => {
+  if (value === null) {
+    return undefined;
+  }
+
+  const priority = Number(value);
+
+  if (value.trim() === "" || !Number.isInteger(priority)) {
+    throw new HttpError(400, `The priority has to be an integer, got ${value}`);
+  }
+
+  return priority;
+};
+
+/**
+ * Maps the errors of the OCR to the HTTP status codes, the unexpected ones are reported as 500
+ */
+const getStatusCode = (err: unknown): number => {
+  if (err instanceof OcrInputError || err instanceof OcrInvalidArgsError) {
+    return 400;
+  }
+
+  if (err instanceof OcrTimeoutError) {
+    return err.phase === "queue" ? 503 : 504;
+  }
+
+  if (
+    err instanceof OcrNotInitializedError ||
+    err instanceof OcrBudgetExceededError ||
+    err instanceof OcrAbortedError
+  ) {
+    return 503;
+  }
+
+  return err instanceof OcrError ? 502 : 500;
+};
+
+const sendJson = (
+  res: ServerResponse,
+  statusCode: number,
+  body: unknown,
+  headers?: http.OutgoingHttpHeaders,
+) => {
+  res.writeHead(statusCode, { ...headers, "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Exposes {@link TesseractOcrOnGolem} as an HTTP microservice
+ *
+ * Endpoints:
+ * - `POST /ocr` - accepts the image as a raw binary body or as `multipart/form-data` (the `file` field or the first
+ *   file). Responds with `{ text }`, or with the plain text when the client accepts `text/plain`. When the `formats`
+ *   query parameter is provided (like `?formats=txt,tsv`), responds with the structured result, the PDF output is
+ *   encoded in base64. The `x-tenant` header and the `priority` query parameter are used to schedule the request.
+ * - `GET /health/live` - responds with 200 as long as the process is running.
+ * - `GET /health/ready` - responds with 200 when the OCR is initialized and accepts requests, 503 otherwise.
+ * - `GET /status` - responds with the snapshot of the state of the OCR, see {@link TesseractOcrOnGolem.getStatus}.
+ */
+export class OcrHttpServer {
+  private readonly server: http.Server;
+
+  private readonly logger: Debugger;
+
+  private ready = false;
+
+  private shuttingDown = false;
+
+  private inFlight = 0;
+
+  private idleWaiters: (() => void)[] = [];
+
+  private signalHandler?: () => void;
+
+  constructor(
+    private readonly ocr: TesseractOcrOnGolem,
+    private readonly config: OcrHttpServerConfig = {},
+  ) {
+    this.logger = debug("tesseract:http");
+    this.server = http.createServer((req, res) => this.handle(req, res));
+  }
+
+  /**
+   * Starts listening and initializes the OCR
+   *
+   * The server responds to the health checks while the OCR is initializing, reporting it as not ready.
+   */
+  async start() {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(
+        this.config.port ?? 8080,
+        this.config.host ?? "0.0.0.0",
+        () => {
+          this.server.off("error", reject);
+          resolve();
+        },
+      );
+    });
+
+    this.logger("Listening on port %d", this.getPort());
+
+    if (this.config.handleSignals ?? true) {
+      this.signalHandler = () => {
+        this.logger("Received shutdown signal");
+        this.shutdown().catch((err) =>
+          this.logger("Failed to shut down gracefully: %s", err),
+        );
+      };
+      process.once("SIGINT", this.signalHandler);
+      process.once("SIGTERM", this.signalHandler);
+    }
+
+    await this.ocr.init();
+    this.ready = true;
+
+    this.logger("The OCR is ready to accept requests");
+  }
+
+  /**
+   * The port the server listens on, useful when started with port 0
+   */
+  getPort(): number {
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  /**
+   * Stops accepting new requests, waits for the in-flight ones to complete and shuts down the OCR
+   *
+   * The requests which don't complete within {@link OcrHttpServerConfig.drainTimeoutSec} are aborted.
+   */
+  async shutdown() {
+    if (this.shuttingDown) {
+      return;
+    }
+
+    this.shuttingDown = true;
+    this.ready = false;
+
+    if (this.signalHandler) {
+      process.off("SIGINT", this.signalHandler);
+      process.off("SIGTERM", this.signalHandler);
+    }
+
+    this.logger("Draining %d in-flight requests", this.inFlight);
+    const closed = new Promise<void>((resolve) =>
+      this.server.close(() => resolve()),
+    );
+    this.server.closeIdleConnections();
+
+    const { drainTimeoutSec } = this.config;
+    const startedAt = Date.now();
+
+    await this.waitForIdle(drainTimeoutSec);
+
+    // Whatever is still in flight gets aborted by the OCR and responds with an error
+    await this.ocr.shutdown({
+      drainTimeoutSec:
+        drainTimeoutSec === undefined
+          ? undefined
+          : Math.max(0, drainTimeoutSec - (Date.now() - startedAt) / 1000),
+    });
+    await this.waitForIdle();
+    await closed;
+
+    this.logger("Server shut down");
+  }
+
+  private async waitForIdle(timeoutSec?: number) {
+    if (this.inFlight === 0) {
+      return;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+
+    await new Promise<void>((resolve) => {
+      this.idleWaiters.push(resolve);
+
+      if (timeoutSec !== undefined) {
+        timer = setTimeout(resolve, timeoutSec * 1000);
+      }
+    });
+
+    clearTimeout(timer);
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    try {
+      if (req.method === "GET" && url.pathname === "/health/live") {
+        return sendJson(res, 200, { status: "ok" });
+      }
+
+      if (req.method === "GET" && url.pathname === "/health/ready") {
+        return this.ready && this.ocr.getStatus().state === "ready"
+          ? sendJson(res, 200, { status: "ready" })
+          : sendJson(res, 503, { status: "not ready" });
+      }
+
+      if (req.method === "GET" && url.pathname === "/status") {
+        return sendJson(res, 200, this.ocr.getStatus());
+      }
+
+      if (url.pathname === "/ocr") {
+        if (req.method !== "POST") {
+          throw new HttpError(405, "Use POST to submit images");
+        }
+
+        return await this.handleOcr(req, res, url);
+      }
+
+      throw new HttpError(404, "Not found");
+    } catch (err) {
+      // The client is gone, there's no one to respond to
+      if (res.destroyed) {
+        this.logger("Request failed after the connection closed: %s", err);
+        return;
+      }
+
+      if (err instanceof HttpError) {
+        return sendJson(
+          res,
+          err.statusCode,
+          { error: err.message },
+          err.headers,
+        );
+      }
+
+      this.logger("Request failed: %s", err);
+      return sendJson(res, getStatusCode(err), {
+        error: err instanceof Error ? err.message : String(err),
+        type: err instanceof OcrError ? err.name : undefined,
+      });
+    }
+  }
+
+  private async handleOcr(req: IncomingMessage, res: ServerResponse, url: URL) {
+    if (!this.ready) {
+      throw new HttpError(503, "The OCR is not ready to accept requests");
+    }
+
+    this.inFlight++;
+
+    // Stops the OCR when the client disconnects before getting the response
+    const controller = new AbortController();
+    const onClose = () => {
+      if (!res.writableFinished) {
+        controller.abort("The client closed the connection");
+      }
+    };
+    res.on("close", onClose);
+
+    try {
+      const formats = parseFormats(url.searchParams.get("formats"));
+      const tenantHeader =
+        req.headers[(this.config.tenantHeader ?? "x-tenant").toLowerCase()];
+      const options = {
+        tenant: Array.isArray(tenantHeader) ? tenantHeader[0] : tenantHeader,
+        priority: parsePriority(url.searchParams.get("priority")),
+        signal: controller.signal,
+      };
+      const contentType = req.headers["content-type"] ?? "";
+      const body = await readBody(
+        req,
+        this.config.maxUploadBytes ?? DEFAULT_MAX_UPLOAD_BYTES,
+      );
+
+      const image = contentType.startsWith("multipart/form-data")
+        ? extractMultipartFile(body, contentType)
+        : body;
+
+      if (image.length === 0) {
+        throw new HttpError(400, "The request does not contain any image");
+      }
+
+      if (formats) {
+        const result = await this.ocr.recognizeImage(image, {
+          ...options,
+          formats,
+        });
+        return sendJson(res, 200, {
+          ...result,
+          pdf: result.pdf?.toString("base64"),
+        });
+      }
+
+      const text = (await this.ocr.convertImageToText(image, options)) ?? "";
+
+      if ((req.headers["accept"] ?? "").includes("text/plain")) {
+        res.writeHead(200, { "Content-Type": "text/plain; charset=utf-8" });
+        return res.end(text);
+      }
+
+      return sendJson(res, 200, { text });
+    } finally {
+      res.off("close", onClose);
+      this.inFlight--;
+
+      if (this.inFlight === 0) {
+        this.idleWaiters.splice(0).forEach((resolve) => resolve());
+      }
+    }
+  }
+}
@@ -1,6 +1,114 @@
 export type {
   TesseractOcrOnGolemConfig,
-  TesseractArgs,
+  ConvertOptions,
+  RecognizeOptions,
+  BulkOptions,
+  OcrStatus,
+  ShutdownOptions,
 } from "./tesseract-ocr-on-golem";
+export type { TesseractArgs } from "./tesseract-args";
+export type { TesseractModel } from "./models";
+export type {
+  SchedulingConfig,
+  TenantConfig,
+  QueueInfo,
+  TenantQueueInfo,
+} from "./scheduler";
 export { TesseractOcrOnGolem } from "./tesseract-ocr-on-golem";
-export type { GolemConfig } from "./golem";
+export type {
+  OcrCacheStore,
+  MemoryCacheStoreConfig,
+  DiskCacheStoreConfig,
+} from "./cache";
+export { MemoryCacheStore, DiskCacheStore } from "./cache";
+export type { GolemConfig, RetryPolicy } from "./golem";
+export type {
+  OcrBackend,
+  OcrWorker,
+  WorkerProvider,
+  WorkResult,
+  CommandResult,
+  WorkerSetupHook,
+  WorkOptions,
+  WorkerPoolStatus,
+} from "./backend";
+export type { GolemServiceConfig } from "./golem-backend";
+export type {
+  ProviderScoringConfig,
+  ProviderStats,
+  ProviderFailureType,
+} from "./provider-scoring";
+export { GolemBackend } from "./golem-backend";
+export type { LocalBackendConfig } from "./local-backend";
+export { LocalBackend } from "./local-backend";
+export type {
+  FakeBackendConfig,
+  FakeCommand,
+  FakeCommandHandler,
+  FakeCommandOutcome,
+} from "./fake-backend";
+export { FakeBackend } from "./fake-backend";
+export type {
+  OcrOutputFormat,
+  OcrResult,
+  OcrPage,
+  OcrBlock,
+  OcrLine,
+  OcrWord,
+  BoundingBox,
+} from "./ocr-result";
+export { parseTsv, parseHocr } from "./ocr-result";
+export type { OsdResult, AutoDetectOptions } from "./osd";
+export { parseOsd, DEFAULT_SCRIPT_LANGUAGES } from "./osd";
+export type { BatchingConfig, BatchItemResult } from "./batch";
+export type {
+  BulkItem,
+  BulkMode,
+  BulkItemResult,
+  BulkProgress,
+  BulkJobEvents,
+} from "./bulk";
+export { BulkJob } from "./bulk";
+export type { JournalEntry, JournalItemState } from "./journal";
+export { JobJournal } from "./journal";
+export type {
+  OcrTemplate,
+  OcrRegion,
+  ExtractedField,
+  ExtractionResult,
+} from "./regions";
+export type { VerificationConfig, VerificationOutcome } from "./verification";
+export { textSimilarity } from "./verification";
+export type {
+  PageSplitter,
+  DocumentResult,
+  DocumentPageResult,
+} from "./document";
+export { TiffPageSplitter, PdfPageSplitter } from "./document";
+export type { OcrInput } from "./input";
+export type { CostInfo, RentalCost, TaskCost } from "./cost-tracker";
+export type {
+  TesseractOcrEvents,
+  BackendEvents,
+  TaskEvents,
+  LifecycleEvents,
+  ShutdownPhase,
+  OcrLifecycleState,
+} from "./events";
+export type { PrometheusMetricsOptions } from "./prometheus-metrics";
+export { PrometheusMetrics } from "./prometheus-metrics";
+export type { OcrHttpServerConfig } from "./http-server";
+export { OcrHttpServer } from "./http-server";
+export type { OcrTimeoutPhase } from "./errors";
+export {
+  OcrError,
+  OcrNotInitializedError,
+  OcrInputError,
+  OcrInvalidArgsError,
+  OcrTimeoutError,
+  OcrAbortedError,
+  OcrBudgetExceededError,
+  OcrProviderError,
+  OcrExecutionError,
+  OcrVerificationError,
+} from "./errors";
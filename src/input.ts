@@ -0,0 +1,158 @@
+import * as fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { Readable } from "stream";
+import { fileURLToPath } from "url";
+import { OcrInputError } from "./errors";
+
+/**
+ * The image or document to run the OCR on
+ *
+ * - `string` - a path to a local file, a `file://` URL or a `data:` URL
+ * - `URL` - a `file:` or `data:` URL
+ * - `Buffer` or `Uint8Array` - the contents of the file
+ * - `Readable` - a stream with the contents of the file (for example, an HTTP upload or an S3 object)
+ */
+export type OcrInput = string | URL | Buffer | Uint8Array | Readable;
+
+/**
+ * The input in a form which can be uploaded to the provider
+ */
+export interface ResolvedInput {
+  /** Human-readable description of the input used in logs and error messages */
+  label: string;
+
+  /** The path to the local file, if the input is a file */
+  localPath?: string;
+
+  /** The contents of the file, if the input is held in memory */
+  data?: Uint8Array;
+
+  /** The file name extension (without the dot), if it could be determined */
+  extension?: string;
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/bmp": "bmp",
+  "image/tiff": "tif",
+  "image/webp": "webp",
+  "application/pdf": "pdf",
+};
+
+const sanitizeExtension = (extension: string) => {
+  const cleaned = extension
+    .replace(/^\./, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+  return cleaned.length > 0 && cleaned.length <= 8 ? cleaned : undefined;
+};
+
+const resolveFile = (localPath: string): ResolvedInput => {
+  if (!fs.existsSync(localPath)) {
+    throw new OcrInputError(
+      `The source image file ${localPath} does not exist`,
+    );
+  }
+
+  return {
+    label: localPath,
+    localPath,
+    extension: sanitizeExtension(path.extname(localPath)),
+  };
+};
+
+const resolveDataUrl = (url: string): ResolvedInput => {
+  const match = /^data:([^,]*?),(.*)$/s.exec(url);
+
+  if (!match) {
+    throw new OcrInputError("The provided data URL is malformed");
+  }
+
+  const [, meta, payload] = match;
+  const isBase64 = meta.endsWith(";base64");
+  const mimeType = meta.split(";")[0].toLowerCase();
+
+  return {
+    label: `data URL (${mimeType || "unknown type"})`,
+    data: isBase64
+      ? Buffer.from(payload, "base64")
+      : Buffer.from(decodeURIComponent(payload)),
+    extension: MIME_EXTENSIONS[mimeType],
+  };
+};
+
+const readStream = async (stream: Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+
+  return Buffer.concat(chunks);
+};
+
+/**
+ * Turns any of the supported input kinds into a form which can be uploaded to the provider
+ *
+ * Streams are read fully into memory.
+ */
+export async function resolveInput(input: OcrInput): Promise<ResolvedInput> {
+  if (input instanceof Readable) {
+    return { label: "stream", data: await readStream(input) };
+  }
+
+  if (input instanceof Uint8Array) {
+    return { label: `buffer (${input.byteLength} bytes)`, data: input };
+  }
+
+  const url = input instanceof URL ? input.href : input;
+
+  if (url.startsWith("data:")) {
+    return resolveDataUrl(url);
+  }
+
+  if (url.startsWith("file:")) {
+    return resolveFile(fileURLToPath(url));
+  }
+
+  if (input instanceof URL) {
+    throw new OcrInputError(
+      `The URL protocol ${input.protocol} is not supported, use file: or data: URLs`,
+    );
+  }
+
+  return resolveFile(input);
+}
+
+/**
+ * Generates a unique file name for the input, safe to use on the provider's side
+ *
+ * Only the extension is taken from the input, so that two concurrent requests never collide.
+ */
+export function createRemoteFileName(resolved: ResolvedInput): string {
+  return resolved.extension
+    ? `${randomUUID()}.${resolved.extension}`
+    : randomUUID();
+}
+
+/**
+ * Makes sure that the input is available as a local file, writing it into the directory if necessary
+ *
+ * @returns The path to the local file
+ */
+export async function materializeInput(
+  resolved: ResolvedInput,
+  dir: string,
+): Promise<string> {
+  if (resolved.localPath) {
+    return resolved.localPath;
+  }
+
+  const filePath = path.join(dir, createRemoteFileName(resolved));
+  await fs.promises.writeFile(filePath, resolved.data ?? new Uint8Array());
+
+  return filePath;
+}
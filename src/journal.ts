@@ -0,0 +1,221 @@
+import * as fs from "fs";
+import path from "path";
+import debug, { Debugger } from "debug";
+import { BulkMode } from "./bulk";
+import { OcrInput } from "./input";
+
+/**
+ * The state of an item recorded in the journal
+ *
+ * - `submitted` - the processing started, but it didn't complete (yet)
+ * - `completed` - the item was processed successfully
+ * - `failed` - the processing failed, the item is processed again when the job is resumed
+ */
+export type JournalItemState = "submitted" | "completed" | "failed";
+
+/**
+ * The last known state of an item of a bulk job
+ */
+export interface JournalEntry {
+  id: string;
+
+  state: JournalItemState;
+
+  mode: BulkMode;
+
+  /** The path or URL of the input, absent for the inputs held in memory, which can't be resumed on their own */
+  input?: string;
+
+  /** The resulting text, present for the completed items */
+  text?: string;
+
+  /** The message of the last failure, present for the failed items */
+  error?: string;
+
+  /** The timestamp of the last change */
+  updatedAt: number;
+}
+
+type JournalRecord =
+  | {
+      type: "submitted";
+      id: string;
+      mode: BulkMode;
+      input?: string;
+      at: number;
+    }
+  | { type: "completed"; id: string; text?: string; at: number }
+  | { type: "failed"; id: string; error: string; at: number };
+
+/**
+ * Records the items of the bulk jobs and their outcomes in a JSON-lines file, so that the jobs interrupted by a crash
+ * or a restart can be resumed without processing the completed items again
+ *
+ * Each change is appended as a single line. A partially written line left behind by a crash is ignored when the
+ * journal is loaded.
+ */
+export class JobJournal {
+  private readonly entries = new Map<string, JournalEntry>();
+
+  private readonly logger: Debugger;
+
+  private loading?: Promise<void>;
+
+  private writing = Promise.resolve();
+
+  /** Set when the file ends with a partially written line, so that the next record starts on a new line */
+  private truncated = false;
+
+  constructor(private readonly filePath: string) {
+    this.logger = debug("tesseract:journal");
+  }
+
+  /**
+   * Reads the entries recorded so far, a missing file is treated as an empty journal
+   *
+   * Loads the file only once, the subsequent calls wait for the first load.
+   */
+  async load() {
+    this.loading = this.loading ?? this.readFile();
+    await this.loading;
+  }
+
+  getEntry(id: string): JournalEntry | undefined {
+    const entry = this.entries.get(id);
+    return entry && { ...entry };
+  }
+
+  getEntries(): JournalEntry[] {
+    return [...this.entries.values()].map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * Returns the items which were submitted, but not completed successfully
+   */
+  getUnfinished(): JournalEntry[] {
+    return this.getEntries().filter((entry) => entry.state !== "completed");
+  }
+
+  async recordSubmitted(id: string, mode: BulkMode, input: OcrInput) {
+    await this.append({
+      type: "submitted",
+      id,
+      mode,
+      input: describeInput(input),
+      at: Date.now(),
+    });
+  }
+
+  async recordCompleted(id: string, text?: string) {
+    await this.append({ type: "completed", id, text, at: Date.now() });
+  }
+
+  async recordFailed(id: string, error: Error) {
+    await this.append({
+      type: "failed",
+      id,
+      error: error.message,
+      at: Date.now(),
+    });
+  }
+
+  private async readFile() {
+    let content: string;
+
+    try {
+      content = await fs.promises.readFile(this.filePath, "utf-8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      throw err;
+    }
+
+    this.truncated = content.length > 0 && !content.endsWith("\n");
+    let malformed = 0;
+
+    for (const line of content.split("\n")) {
+      if (line.trim() === "") {
+        continue;
+      }
+
+      try {
+        this.apply(JSON.parse(line));
+      } catch {
+        malformed++;
+      }
+    }
+
+    if (malformed > 0) {
+      this.logger("Skipped %d malformed lines of the journal", malformed);
+    }
+
+    this.logger(
+      "Loaded %d items from the journal %s",
+      this.entries.size,
+      this.filePath,
+    );
+  }
+
+  private async append(record: JournalRecord) {
+    await this.load();
+    this.apply(record);
+
+    const line = `${this.truncated ? "\n" : ""}${JSON.stringify(record)}\n`;
+    this.truncated = false;
+
+    // Chain the writes, so that the records are appended in the order of the changes
+    const write = this.writing.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.appendFile(this.filePath, line);
+    });
+    this.writing = write.catch(() => undefined);
+
+    await write;
+  }
+
+  private apply(record: JournalRecord) {
+    const previous = this.entries.get(record.id);
+
+    switch (record.type) {
+      case "submitted":
+        this.entries.set(record.id, {
+          id: record.id,
+          state: "submitted",
+          mode: record.mode,
+          input: record.input,
+          updatedAt: record.at,
+        });
+        break;
+      case "completed":
+      case "failed":
+        if (!previous) {
+          throw new Error(`The item ${record.id} was not submitted`);
+        }
+
+        this.entries.set(record.id, {
+          ...previous,
+          state: record.type,
+          text: record.type === "completed" ? record.text : undefined,
+          error: record.type === "failed" ? record.error : undefined,
+          updatedAt: record.at,
+        });
+        break;
+    }
+  }
+}
+
+/**
+ * Returns the reference to the input which can be used to resume it, the contents held in memory are not recorded
+ */
+const describeInput = (input: OcrInput): string | undefined => {
+  if (input instanceof URL) {
+    return input.protocol === "file:" ? input.href : undefined;
+  }
+
+  if (typeof input !== "string" || input.startsWith("data:")) {
+    return undefined;
+  }
+
+  return input.startsWith("file:") ? input : path.resolve(input);
+};
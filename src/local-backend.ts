@@ -0,0 +1,303 @@
+import * as fs from "fs";
+import * as os from "os";
+import path from "path";
+import { execFile } from "child_process";
+import debug, { Debugger } from "debug";
+import {
+  CommandResult,
+  OcrBackend,
+  OcrWorker,
+  WorkerProvider,
+  WorkerPoolStatus,
+  WorkerSetupHook,
+  WorkOptions,
+  WorkResult,
+} from "./backend";
+import { createCancellationScope, raceWithSignal } from "./cancellation";
+import {
+  OcrExecutionError,
+  OcrNotInitializedError,
+  OcrProviderError,
+} from "./errors";
+
+export interface LocalBackendConfig {
+  /**
+   * The path to the `tesseract` binary
+   *
+   * @default "tesseract"
+   */
+  tesseractPath?: string;
+
+  /**
+   * How many Tesseract processes can run at the same time
+   *
+   * @default the number of CPUs
+   */
+  maxConcurrency?: number;
+
+  /**
+   * Environment variables passed to the Tesseract processes, like `TESSDATA_PREFIX`
+   */
+  env?: Record<string, string>;
+}
+
+const LOCAL_PROVIDER: WorkerProvider = { id: "local", name: "local" };
+
+/**
+ * Runs the commands on the local machine, within the temporary directory of the session
+ */
+class LocalWorker implements OcrWorker {
+  readonly provider = LOCAL_PROVIDER;
+
+  constructor(
+    readonly workDir: string,
+    private readonly config: LocalBackendConfig,
+    private readonly signal?: AbortSignal,
+  ) {}
+
+  async uploadFile(localPath: string, remotePath: string) {
+    await fs.promises.copyFile(localPath, remotePath);
+  }
+
+  async uploadData(data: Uint8Array, remotePath: string) {
+    await fs.promises.writeFile(remotePath, data);
+  }
+
+  async downloadData(remotePath: string) {
+    return fs.promises.readFile(remotePath);
+  }
+
+  run(executable: string, args: string[]): Promise<CommandResult> {
+    const command =
+      executable === "tesseract"
+        ? (this.config.tesseractPath ?? "tesseract")
+        : executable;
+
+    return new Promise((resolve) => {
+      execFile(
+        command,
+        args,
+        {
+          cwd: this.workDir,
+          env: { ...process.env, ...this.config.env },
+          maxBuffer: 64 * 1024 * 1024,
+          signal: this.signal,
+        },
+        (err, stdout, stderr) => {
+          const exitCode =
+            err && typeof err.code === "number" ? err.code : err ? -1 : 0;
+
+          resolve({
+            ok: !err,
+            exitCode,
+            stdout,
+            stderr: stderr || (err?.message ?? ""),
+          });
+        },
+      );
+    });
+  }
+
+  async deleteFiles(remotePaths: string[]) {
+    await Promise.all(
+      remotePaths.map((remotePath) =>
+        fs.promises.rm(remotePath, { force: true }),
+      ),
+    );
+  }
+}
+
+/**
+ * Runs the OCR using a locally installed Tesseract binary
+ *
+ * Useful for development and CI environments where the Golem Network is not available.
+ */
+export class LocalBackend implements OcrBackend {
+  private readonly logger: Debugger;
+
+  private running = 0;
+
+  private waiting: (() => void)[] = [];
+
+  private idleWaiters: (() => void)[] = [];
+
+  private stopped = false;
+
+  private readonly setupHooks: WorkerSetupHook[] = [];
+
+  /** The local machine acts as a single worker, which lives as long as the session */
+  private worker?: LocalWorker;
+
+  constructor(private readonly config: LocalBackendConfig = {}) {
+    this.logger = debug("tesseract:local");
+  }
+
+  addSetupHook(hook: WorkerSetupHook) {
+    this.setupHooks.push(hook);
+  }
+
+  async start() {
+    this.stopped = false;
+
+    const workDir = await fs.promises.mkdtemp(
+      path.join(os.tmpdir(), "tesseract-local-"),
+    );
+    const worker = new LocalWorker(workDir, this.config);
+
+    try {
+      const res = await worker.run("tesseract", ["--version"]);
+
+      if (!res.ok) {
+        throw OcrExecutionError.fromCommand(
+          "Failed to run the local tesseract binary, make sure that it's installed",
+          worker,
+          res,
+        );
+      }
+
+      this.logger("Using local %s", res.stdout.split("\n")[0]);
+
+      for (const hook of this.setupHooks) {
+        await hook(worker);
+      }
+    } catch (err) {
+      await fs.promises.rm(workDir, { recursive: true, force: true });
+      throw err;
+    }
+
+    this.worker = worker;
+  }
+
+  async runWork<T>(
+    task: (worker: OcrWorker) => Promise<T>,
+    options: WorkOptions = {},
+  ): Promise<WorkResult<T>> {
+    if (this.stopped) {
+      throw new OcrNotInitializedError(
+        "No new task will be accepted, the backend is stopped",
+      );
+    }
+
+    if (!this.worker) {
+      throw new OcrNotInitializedError("The local backend is not started yet.");
+    }
+
+    if (options.excludeProviders?.includes(LOCAL_PROVIDER.id)) {
+      throw new OcrProviderError(
+        "The local backend has a single provider, the work can't be executed by another one",
+        LOCAL_PROVIDER,
+      );
+    }
+
+    const queueScope = createCancellationScope(
+      "queue",
+      options.queueTimeoutSec,
+      [options.signal],
+    );
+
+    try {
+      await this.acquireSlot(queueScope.signal);
+    } finally {
+      queueScope.dispose();
+    }
+
+    // The signal terminates the Tesseract process of the task
+    const executionScope = createCancellationScope(
+      "execution",
+      options.executionTimeoutSec,
+      [options.signal],
+    );
+
+    try {
+      const worker = new LocalWorker(
+        this.worker.workDir,
+        this.config,
+        executionScope.signal,
+      );
+      const result = await raceWithSignal(task(worker), executionScope.signal);
+      return { result };
+    } finally {
+      executionScope.dispose();
+      this.releaseSlot();
+    }
+  }
+
+  getPoolStatus(): WorkerPoolStatus {
+    const limit = this.getConcurrencyLimit();
+
+    return {
+      total: limit,
+      busy: this.running,
+      idle: Math.max(0, limit - this.running),
+      pending: this.waiting.length,
+    };
+  }
+
+  async stop() {
+    this.stopped = true;
+
+    if (this.running > 0 || this.waiting.length > 0) {
+      await new Promise<void>((resolve) => this.idleWaiters.push(resolve));
+    }
+
+    await this.removeWorkDir();
+  }
+
+  async abort() {
+    this.stopped = true;
+    await this.removeWorkDir();
+  }
+
+  private async removeWorkDir() {
+    if (this.worker) {
+      await fs.promises.rm(this.worker.workDir, {
+        recursive: true,
+        force: true,
+      });
+      this.worker = undefined;
+    }
+  }
+
+  private async acquireSlot(signal: AbortSignal) {
+    const limit = this.getConcurrencyLimit();
+
+    while (this.running >= limit) {
+      await new Promise<void>((resolve, reject) => {
+        const wake = () => {
+          signal.removeEventListener("abort", giveUp);
+          resolve();
+        };
+        const giveUp = () => {
+          this.waiting = this.waiting.filter((w) => w !== wake);
+          this.notifyIfIdle();
+          reject(signal.reason);
+        };
+
+        if (signal.aborted) {
+          return reject(signal.reason);
+        }
+
+        signal.addEventListener("abort", giveUp, { once: true });
+        this.waiting.push(wake);
+      });
+    }
+
+    this.running++;
+  }
+
+  private getConcurrencyLimit() {
+    return this.config.maxConcurrency ?? os.cpus().length;
+  }
+
+  private releaseSlot() {
+    this.running--;
+    this.waiting.shift()?.();
+    this.notifyIfIdle();
+  }
+
+  private notifyIfIdle() {
+    if (this.running === 0 && this.waiting.length === 0) {
+      this.idleWaiters.splice(0).forEach((resolve) => resolve());
+    }
+  }
+}
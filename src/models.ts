@@ -0,0 +1,133 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+import path from "path";
+import { OcrWorker, WorkerSetupHook } from "./backend";
+import { OcrExecutionError, OcrInvalidArgsError } from "./errors";
+
+/**
+ * A custom language model, like a `.traineddata` file fine-tuned for invoices or handwriting
+ */
+export interface TesseractModel {
+  /**
+   * The name of the language, which is then used in {@link TesseractArgs.lang}
+   *
+   * Using the name of a stock language (like `eng`) replaces the stock model.
+   */
+  lang: string;
+
+  /** The path to the local `.traineddata` file */
+  path: string;
+}
+
+const MODEL_LANG_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/** Tesseract prints the directory in the header, like: List of available languages in "/usr/share/tessdata/" (3): */
+const LIST_LANGS_DIR_PATTERN = /"([^"]+)"/;
+
+/**
+ * The directory on the worker which holds the stock and the custom models
+ */
+export const getTessdataDir = (worker: OcrWorker) =>
+  `${worker.workDir}/tessdata`;
+
+/**
+ * Makes sure that the models can be installed on the workers
+ *
+ * @throws OcrInvalidArgsError if the name of the language is not supported or the model file is not readable
+ */
+export const validateModels = async (models: TesseractModel[]) => {
+  for (const model of models) {
+    if (!MODEL_LANG_PATTERN.test(model.lang)) {
+      throw new OcrInvalidArgsError(
+        `Unsupported name of the custom model language: ${model.lang}`,
+      );
+    }
+
+    await fs.promises.access(model.path, fs.constants.R_OK).catch(() => {
+      throw new OcrInvalidArgsError(
+        `The custom model file ${model.path} is not readable`,
+      );
+    });
+  }
+};
+
+/**
+ * Computes the SHA-256 of the model file, so that the cached outputs are not reused after the model changes
+ *
+ * @param known - The hashes computed before, reused as long as the size and the modification time of the file match.
+ */
+export const hashModel = async (
+  model: TesseractModel,
+  known: Map<string, string>,
+): Promise<string> => {
+  const stats = await fs.promises.stat(model.path);
+  const key = `${path.resolve(model.path)}:${stats.size}:${stats.mtimeMs}`;
+  const knownHash = known.get(key);
+
+  if (knownHash !== undefined) {
+    return knownHash;
+  }
+
+  const hash = createHash("sha256");
+  for await (const chunk of fs.createReadStream(model.path)) {
+    hash.update(chunk);
+  }
+
+  const digest = hash.digest("hex");
+  known.set(key, digest);
+
+  return digest;
+};
+
+/**
+ * Creates the hook which installs the custom models on a new worker
+ *
+ * The stock models and configs of the worker's Tesseract are linked into {@link getTessdataDir} next to the custom
+ * models, so that the tasks can use both by passing it as `--tessdata-dir`.
+ */
+export const createModelInstaller =
+  (models: TesseractModel[]): WorkerSetupHook =>
+  async (worker) => {
+    const tessdataDir = getTessdataDir(worker);
+
+    const langs = await worker.run("tesseract", ["--list-langs"]);
+    const stockDir = LIST_LANGS_DIR_PATTERN.exec(
+      langs.stdout + langs.stderr,
+    )?.[1];
+
+    if (!langs.ok || !stockDir) {
+      throw OcrExecutionError.fromCommand(
+        `Failed to determine the tessdata directory on provider ${worker.provider.name}`,
+        worker,
+        langs,
+      );
+    }
+
+    const mkdir = await worker.run("mkdir", ["-p", tessdataDir]);
+    // The directories are passed as positional parameters, so they are never interpreted by the shell
+    const link = await worker.run("sh", [
+      "-c",
+      'ln -sf "$0"/* "$1"/',
+      stockDir.replace(/\/$/, ""),
+      tessdataDir,
+    ]);
+
+    if (!mkdir.ok || !link.ok) {
+      throw OcrExecutionError.fromCommand(
+        `Failed to prepare the tessdata directory on provider ${worker.provider.name}`,
+        worker,
+        mkdir.ok ? link : mkdir,
+      );
+    }
+
+    const modelPaths = models.map(
+      (model) => `${tessdataDir}/${model.lang}.traineddata`,
+    );
+
+    // Remove the links to the stock models which are replaced, so that the upload doesn't write through them
+    await worker.deleteFiles(modelPaths);
+
+    for (const [idx, model] of models.entries()) {
+      await worker.uploadFile(model.path, modelPaths[idx]);
+    }
+  };
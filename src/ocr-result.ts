@@ -0,0 +1,346 @@
+import { TaskCost } from "./cost-tracker";
+import { OsdResult } from "./osd";
+import { VerificationOutcome } from "./verification";
+
+/**
+ * Output formats (Tesseract "configfiles") which can be requested from the OCR
+ *
+ * - `txt` - plain text
+ * - `hocr` - HTML based hOCR document
+ * - `tsv` - tab separated values with the layout analysis and confidence scores
+ * - `alto` - ALTO XML document
+ * - `pdf` - searchable PDF with the original image and an invisible text layer
+ */
+export type OcrOutputFormat = "txt" | "hocr" | "tsv" | "alto" | "pdf";
+
+/**
+ * File name extensions which Tesseract uses for the particular output format
+ */
+export const OUTPUT_FORMAT_EXTENSIONS: Record<OcrOutputFormat, string> = {
+  txt: "txt",
+  hocr: "hocr",
+  tsv: "tsv",
+  alto: "xml",
+  pdf: "pdf",
+};
+
+/** Axis aligned rectangle expressed in pixels of the source image */
+export interface BoundingBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/** Properties shared by all the elements of the recognized layout */
+interface OcrElement {
+  /** The location of the element on the source image */
+  bbox: BoundingBox;
+
+  /**
+   * Confidence of the recognition in range 0-100
+   *
+   * For the elements containing words, this is the mean of the word confidences.
+   */
+  confidence: number;
+
+  /** The recognized text of the element */
+  text: string;
+}
+
+export interface OcrWord extends OcrElement {
+  /** 1-based index of the word within the line */
+  wordNum: number;
+}
+
+export interface OcrLine extends OcrElement {
+  /** 1-based index of the paragraph within the block which contains this line */
+  parNum: number;
+
+  /** 1-based index of the line within the paragraph */
+  lineNum: number;
+
+  words: OcrWord[];
+}
+
+export interface OcrBlock extends OcrElement {
+  /** 1-based index of the block within the page */
+  blockNum: number;
+
+  lines: OcrLine[];
+}
+
+export interface OcrPage extends OcrElement {
+  /** 1-based index of the page within the document */
+  pageNum: number;
+
+  blocks: OcrBlock[];
+}
+
+/**
+ * Result of the OCR containing the raw outputs in the requested formats and the parsed layout
+ */
+export interface OcrResult {
+  /** The plain text, present when `txt` was requested */
+  text?: string;
+
+  /** The raw hOCR document, present when `hocr` was requested */
+  hocr?: string;
+
+  /** The raw TSV output, present when `tsv` was requested */
+  tsv?: string;
+
+  /** The raw ALTO XML document, present when `alto` was requested */
+  alto?: string;
+
+  /** The searchable PDF, present when `pdf` was requested */
+  pdf?: Buffer;
+
+  /**
+   * The recognized layout with bounding boxes and confidence scores
+   *
+   * Parsed from the TSV output if present, or from the hOCR output otherwise. Empty if neither was requested.
+   */
+  pages: OcrPage[];
+
+  /** The estimated cost of the OCR and the details of the provider which performed it, absent for cached results */
+  cost?: TaskCost;
+
+  /** True when the result was served from the cache instead of running the OCR */
+  cached?: boolean;
+
+  /** The detected orientation and script, present when {@link ConvertOptions.autoDetect} was requested */
+  osd?: OsdResult;
+
+  /** How the providers agreed on the outputs, present when the request was verified and not served from the cache */
+  verification?: VerificationOutcome;
+}
+
+/** Tesseract's TSV `level` column values */
+const enum TsvLevel {
+  Page = 1,
+  Block = 2,
+  Paragraph = 3,
+  Line = 4,
+  Word = 5,
+}
+
+const EMPTY_BBOX: BoundingBox = { left: 0, top: 0, width: 0, height: 0 };
+
+/**
+ * Computes the mean confidence of the words, ignoring the ones which Tesseract reported without a score
+ */
+const meanConfidence = (words: OcrWord[]) => {
+  const scored = words.filter((w) => w.confidence >= 0);
+
+  if (scored.length === 0) {
+    return 0;
+  }
+
+  return scored.reduce((sum, w) => sum + w.confidence, 0) / scored.length;
+};
+
+/**
+ * Fills in the text and confidence of the containers based on the words they contain
+ */
+const summarizePages = (pages: OcrPage[]): OcrPage[] => {
+  for (const page of pages) {
+    for (const block of page.blocks) {
+      for (const line of block.lines) {
+        line.text = line.words.map((w) => w.text).join(" ");
+        line.confidence = meanConfidence(line.words);
+      }
+
+      block.text = block.lines.map((l) => l.text).join("\n");
+      block.confidence = meanConfidence(block.lines.flatMap((l) => l.words));
+    }
+
+    page.text = page.blocks.map((b) => b.text).join("\n\n");
+    page.confidence = meanConfidence(
+      page.blocks.flatMap((b) => b.lines.flatMap((l) => l.words)),
+    );
+  }
+
+  return pages;
+};
+
+/**
+ * Parses the output of Tesseract's `tsv` renderer into the page/block/line/word structure
+ *
+ * @param tsv The contents of the TSV file produced by Tesseract
+ */
+export function parseTsv(tsv: string): OcrPage[] {
+  const pages: OcrPage[] = [];
+
+  let page: OcrPage | undefined;
+  let block: OcrBlock | undefined;
+  let line: OcrLine | undefined;
+
+  const rows = tsv.split(/\r?\n/).filter((row) => row.trim() !== "");
+
+  for (const row of rows) {
+    const cols = row.split("\t");
+
+    // Skip the header and any malformed rows
+    if (cols.length < 11 || isNaN(Number(cols[0]))) {
+      continue;
+    }
+
+    const [level, pageNum, blockNum, parNum, lineNum, wordNum] = cols
+      .slice(0, 6)
+      .map(Number);
+    const [left, top, width, height] = cols.slice(6, 10).map(Number);
+    const confidence = Number(cols[10]);
+    const text = cols.slice(11).join("\t");
+    const bbox = { left, top, width, height };
+
+    switch (level) {
+      case TsvLevel.Page:
+        page = { pageNum, bbox, confidence: 0, text: "", blocks: [] };
+        pages.push(page);
+        block = undefined;
+        line = undefined;
+        break;
+      case TsvLevel.Block:
+        if (!page) break;
+        block = { blockNum, bbox, confidence: 0, text: "", lines: [] };
+        page.blocks.push(block);
+        line = undefined;
+        break;
+      case TsvLevel.Paragraph:
+        // Paragraphs are flattened, the lines keep the paragraph number
+        break;
+      case TsvLevel.Line:
+        if (!block) break;
+        line = { parNum, lineNum, bbox, confidence: 0, text: "", words: [] };
+        block.lines.push(line);
+        break;
+      case TsvLevel.Word:
+        if (!line || text.trim() === "") break;
+        line.words.push({ wordNum, bbox, confidence, text });
+        break;
+    }
+  }
+
+  return summarizePages(pages);
+}
+
+/**
+ * Reads the `bbox` and `x_wconf` properties from the hOCR `title` attribute
+ */
+const parseHocrTitle = (title: string) => {
+  const bboxMatch = /bbox (\d+) (\d+) (\d+) (\d+)/.exec(title);
+  const confMatch = /x_wconf (-?[\d.]+)/.exec(title);
+
+  const bbox = bboxMatch
+    ? {
+        left: Number(bboxMatch[1]),
+        top: Number(bboxMatch[2]),
+        width: Number(bboxMatch[3]) - Number(bboxMatch[1]),
+        height: Number(bboxMatch[4]) - Number(bboxMatch[2]),
+      }
+    : { ...EMPTY_BBOX };
+
+  return {
+    bbox,
+    confidence: confMatch ? Number(confMatch[1]) : -1,
+  };
+};
+
+const decodeHtmlEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+
+/**
+ * Parses the hOCR document produced by Tesseract into the page/block/line/word structure
+ *
+ * This is a lightweight parser which relies on the markup generated by Tesseract and is not
+ * meant to handle arbitrary hOCR documents.
+ *
+ * @param hocr The contents of the hOCR file produced by Tesseract
+ */
+export function parseHocr(hocr: string): OcrPage[] {
+  const pages: OcrPage[] = [];
+
+  let page: OcrPage | undefined;
+  let block: OcrBlock | undefined;
+  let line: OcrLine | undefined;
+  let parNum = 0;
+
+  const elementRegex =
+    /<\w+[^>]*class=['"](ocr_page|ocr_carea|ocr_par|ocr_line|ocr_caption|ocr_textfloat|ocr_header|ocrx_word)['"][^>]*title=(['"])(.*?)\2[^>]*>/g;
+
+  let match: RegExpExecArray | null;
+
+  while ((match = elementRegex.exec(hocr)) !== null) {
+    const [, className, , title] = match;
+    const { bbox, confidence } = parseHocrTitle(title);
+
+    switch (className) {
+      case "ocr_page":
+        page = {
+          pageNum: pages.length + 1,
+          bbox,
+          confidence: 0,
+          text: "",
+          blocks: [],
+        };
+        pages.push(page);
+        block = undefined;
+        line = undefined;
+        break;
+      case "ocr_carea":
+        if (!page) break;
+        block = {
+          blockNum: page.blocks.length + 1,
+          bbox,
+          confidence: 0,
+          text: "",
+          lines: [],
+        };
+        page.blocks.push(block);
+        line = undefined;
+        parNum = 0;
+        break;
+      case "ocr_par":
+        parNum++;
+        break;
+      case "ocr_line":
+      case "ocr_caption":
+      case "ocr_textfloat":
+      case "ocr_header":
+        if (!block) break;
+        line = {
+          parNum,
+          lineNum: block.lines.filter((l) => l.parNum === parNum).length + 1,
+          bbox,
+          confidence: 0,
+          text: "",
+          words: [],
+        };
+        block.lines.push(line);
+        break;
+      case "ocrx_word": {
+        if (!line) break;
+        const closeIdx = hocr.indexOf("</span>", elementRegex.lastIndex);
+        const inner = hocr.slice(elementRegex.lastIndex, closeIdx);
+        const text = decodeHtmlEntities(inner.replace(/<[^>]*>/g, "")).trim();
+        if (text !== "") {
+          line.words.push({
+            wordNum: line.words.length + 1,
+            bbox,
+            confidence,
+            text,
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  return summarizePages(pages);
+}
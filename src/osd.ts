@@ -0,0 +1,142 @@
+import { OcrInvalidArgsError } from "./errors";
+import { TesseractArgs } from "./tesseract-args";
+
+/**
+ * The outcome of Tesseract's orientation and script detection (OSD)
+ */
+export interface OsdResult {
+  /** The orientation of the text on the image, clockwise in degrees: 0, 90, 180 or 270 */
+  orientationDeg: number;
+
+  /** By how many degrees the image has to be rotated (counter-clockwise) to make the text upright */
+  rotateDeg: number;
+
+  /** How confident Tesseract is about the orientation, higher is better */
+  orientationConfidence: number;
+
+  /** The name of the detected script, like `Latin`, `Cyrillic` or `Han` */
+  script: string;
+
+  /** How confident Tesseract is about the script, higher is better */
+  scriptConfidence: number;
+}
+
+/**
+ * Controls what the OCR does with the outcome of the orientation and script detection which runs before it
+ */
+export interface AutoDetectOptions {
+  /**
+   * Makes Tesseract correct the orientation of the rotated images
+   *
+   * The rotation is applied by switching the default page segmentation (`psm` 3) to the one with OSD (`psm` 1)
+   * and the sparse text segmentation (`psm` 11) to its OSD variant (`psm` 12). The other segmentation modes can't be
+   * combined with the rotation, the requests using them are rejected with {@link OcrInvalidArgsError}.
+   */
+  rotate?: boolean;
+
+  /**
+   * Sets the language matching the detected script, according to the `scriptLanguages` configuration
+   *
+   * The configured language is used when the script is not in the map.
+   */
+  language?: boolean;
+}
+
+/**
+ * The languages used for the scripts detected by the OSD, when the language is detected automatically
+ */
+export const DEFAULT_SCRIPT_LANGUAGES: Record<string, string | string[]> = {
+  Latin: "eng",
+  Cyrillic: "rus",
+  Greek: "ell",
+  Arabic: "ara",
+  Hebrew: "heb",
+  Han: "chi_sim",
+  Japanese: "jpn",
+  Hangul: "kor",
+  Devanagari: "hin",
+  Thai: "tha",
+  Georgian: "kat",
+  Armenian: "hye",
+  Bengali: "ben",
+  Tamil: "tam",
+};
+
+/** The segmentation modes which have a counterpart using the OSD */
+const OSD_PSM: Record<number, number> = { 3: 1, 11: 12 };
+
+/** The minimal confidence for the orientation to be applied, below that Tesseract is mostly guessing */
+const MIN_ORIENTATION_CONFIDENCE = 1;
+
+const readField = (output: string, name: string): string | undefined =>
+  new RegExp(`^${name}:\\s*(.+)$`, "m").exec(output)?.[1].trim();
+
+/**
+ * Parses the output of `tesseract <image> stdout --psm 0`
+ *
+ * @returns The result, or undefined if the output does not contain the OSD fields
+ */
+export const parseOsd = (output: string): OsdResult | undefined => {
+  const orientation = readField(output, "Orientation in degrees");
+  const script = readField(output, "Script");
+
+  if (orientation === undefined || script === undefined) {
+    return undefined;
+  }
+
+  return {
+    orientationDeg: Number(orientation),
+    rotateDeg: Number(readField(output, "Rotate") ?? 0),
+    orientationConfidence: Number(
+      readField(output, "Orientation confidence") ?? 0,
+    ),
+    script,
+    scriptConfidence: Number(readField(output, "Script confidence") ?? 0),
+  };
+};
+
+/**
+ * @throws OcrInvalidArgsError if the rotation is requested with a segmentation mode which has no OSD counterpart
+ */
+export const validateAutoDetect = (
+  args: TesseractArgs,
+  detect?: AutoDetectOptions,
+) => {
+  const psm = args.psm ?? 3;
+
+  if (detect?.rotate && OSD_PSM[psm] === undefined) {
+    throw new OcrInvalidArgsError(
+      `The rotation can't be combined with psm ${psm}, use psm ${Object.keys(OSD_PSM).join(" or ")}`,
+    );
+  }
+};
+
+/**
+ * Adjusts the args of the OCR pass according to the outcome of the OSD
+ *
+ * The args are expected to pass {@link validateAutoDetect}.
+ */
+export const applyOsd = (
+  args: TesseractArgs,
+  osd: OsdResult,
+  detect: AutoDetectOptions,
+  scriptLanguages: Record<string, string | string[]>,
+): TesseractArgs => {
+  const adjusted = { ...args };
+
+  const psm = args.psm ?? 3;
+  if (
+    detect.rotate &&
+    osd.rotateDeg !== 0 &&
+    osd.orientationConfidence >= MIN_ORIENTATION_CONFIDENCE
+  ) {
+    adjusted.psm = OSD_PSM[psm];
+  }
+
+  const lang = scriptLanguages[osd.script];
+  if (detect.language && lang !== undefined) {
+    adjusted.lang = lang;
+  }
+
+  return adjusted;
+};
@@ -0,0 +1,256 @@
+import { OcrError } from "./errors";
+
+/**
+ * An object of the PDF file, split into the part which can contain references and the raw stream data
+ */
+interface PdfObject {
+  /** Everything between `obj` and `stream` (or `endobj` if there's no stream) */
+  head: string;
+
+  /** The stream including the `stream` and `endstream` keywords, if the object has one */
+  stream?: string;
+}
+
+interface ParsedPdf {
+  objects: Map<number, PdfObject>;
+
+  /** The object numbers of the pages in the document order */
+  pages: number[];
+
+  /** The object numbers of the catalog and the page tree nodes, which are replaced in the merged file */
+  structure: Set<number>;
+}
+
+const REFERENCE_PATTERN = /(\d+)\s+(\d+)\s+R\b/g;
+
+/**
+ * Merges the PDF files into a single one, with the pages in the order of the files
+ *
+ * Works with the files produced by Tesseract's `pdf` renderer. Files with cross-reference streams or with page
+ * attributes inherited from the page tree are not supported.
+ *
+ * @throws OcrError if any of the files can't be merged.
+ */
+export const mergePdfs = (files: Buffer[]): Buffer => {
+  const chunks: string[] = ["%PDF-1.5\n%\xe2\xe3\xcf\xd3\n"];
+  const offsets: number[] = [];
+  let length = chunks[0].length;
+
+  const write = (id: number, body: string) => {
+    const chunk = `${id} 0 obj${body}endobj\n`;
+    offsets[id] = length;
+    chunks.push(chunk);
+    length += chunk.length;
+  };
+
+  // 1 is the catalog and 2 is the page tree of the merged file
+  let nextId = 3;
+  const pages: number[] = [];
+
+  for (const [fileIdx, file] of files.entries()) {
+    let parsed: ParsedPdf;
+
+    try {
+      parsed = parsePdf(file.toString("latin1"));
+    } catch (err) {
+      throw new OcrError(
+        `Failed to merge the PDF file ${fileIdx + 1}: ${err instanceof Error ? err.message : err}`,
+      );
+    }
+
+    const ids = new Map<number, number>();
+    for (const num of parsed.objects.keys()) {
+      if (!parsed.structure.has(num)) {
+        ids.set(num, nextId++);
+      }
+    }
+
+    for (const [num, object] of parsed.objects) {
+      const id = ids.get(num);
+      if (id === undefined) {
+        continue;
+      }
+
+      let head = object.head.replace(
+        REFERENCE_PATTERN,
+        (ref, refNum) => `${ids.get(Number(refNum)) ?? 0} 0 R`,
+      );
+
+      if (parsed.pages.includes(num)) {
+        head = head.replace(/\/Parent\s+\d+\s+0\s+R/, "/Parent 2 0 R");
+      }
+
+      write(id, head + (object.stream ?? ""));
+    }
+
+    pages.push(...parsed.pages.map((num) => ids.get(num) as number));
+  }
+
+  write(1, "\n<< /Type /Catalog /Pages 2 0 R >>\n");
+  write(
+    2,
+    `\n<< /Type /Pages /Kids [${pages.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>\n`,
+  );
+
+  const xref = [
+    "xref",
+    `0 ${nextId}`,
+    "0000000000 65535 f ",
+    ...Array.from(
+      { length: nextId - 1 },
+      (_, idx) => `${String(offsets[idx + 1]).padStart(10, "0")} 00000 n `,
+    ),
+    "trailer",
+    `<< /Size ${nextId} /Root 1 0 R >>`,
+    "startxref",
+    String(length),
+    "%%EOF",
+    "",
+  ].join("\n");
+
+  chunks.push(xref);
+
+  return Buffer.from(chunks.join(""), "latin1");
+};
+
+const parsePdf = (content: string): ParsedPdf => {
+  const startxref = /startxref\s+(\d+)\s+%%EOF\s*$/.exec(content);
+  if (!startxref) {
+    throw new Error("The end of the file is missing");
+  }
+
+  const offsets = new Map<number, number>();
+  let root: number | undefined;
+  let xrefOffset: number | undefined = Number(startxref[1]);
+  const visited = new Set<number>();
+
+  // Follow the chain of the incremental updates, the newest entries take precedence
+  while (xrefOffset !== undefined && !visited.has(xrefOffset)) {
+    visited.add(xrefOffset);
+
+    if (!content.startsWith("xref", xrefOffset)) {
+      throw new Error("Only the classic cross-reference tables are supported");
+    }
+
+    const trailerIdx = content.indexOf("trailer", xrefOffset);
+    const trailerEnd = content.indexOf("startxref", trailerIdx);
+    const tokens = content
+      .slice(xrefOffset + 4, trailerIdx)
+      .trim()
+      .split(/\s+/);
+
+    for (let idx = 0; idx + 1 < tokens.length; ) {
+      const first = Number(tokens[idx]);
+      const count = Number(tokens[idx + 1]);
+      idx += 2;
+
+      for (let n = 0; n < count; n++, idx += 3) {
+        if (tokens[idx + 2] === "n" && !offsets.has(first + n)) {
+          offsets.set(first + n, Number(tokens[idx]));
+        }
+      }
+    }
+
+    const trailer = content.slice(trailerIdx, trailerEnd);
+    root = root ?? Number(/\/Root\s+(\d+)\s+\d+\s+R/.exec(trailer)?.[1]);
+    const prev = /\/Prev\s+(\d+)/.exec(trailer)?.[1];
+    xrefOffset = prev !== undefined ? Number(prev) : undefined;
+  }
+
+  if (root === undefined || Number.isNaN(root)) {
+    throw new Error("The document catalog is missing");
+  }
+
+  const objects = new Map<number, PdfObject>();
+  for (const [num, offset] of offsets) {
+    objects.set(num, readObject(content, offset, offsets));
+  }
+
+  const structure = new Set<number>([root]);
+  const pages: number[] = [];
+
+  const pagesRoot = /\/Pages\s+(\d+)\s+\d+\s+R/.exec(
+    objects.get(root)?.head ?? "",
+  )?.[1];
+  if (pagesRoot === undefined) {
+    throw new Error("The page tree is missing");
+  }
+
+  const visit = (num: number) => {
+    const head = objects.get(num)?.head ?? "";
+
+    if (/\/Type\s*\/Pages\b/.test(head)) {
+      structure.add(num);
+
+      const kids = /\/Kids\s*\[([^\]]*)\]/.exec(head)?.[1] ?? "";
+      for (const [, kid] of kids.matchAll(REFERENCE_PATTERN)) {
+        if (!structure.has(Number(kid))) {
+          visit(Number(kid));
+        }
+      }
+    } else if (/\/Type\s*\/Page\b/.test(head)) {
+      pages.push(num);
+    }
+  };
+
+  visit(Number(pagesRoot));
+
+  return { objects, pages, structure };
+};
+
+const readObject = (
+  content: string,
+  offset: number,
+  offsets: Map<number, number>,
+): PdfObject => {
+  const header = /^\s*\d+\s+\d+\s+obj/.exec(content.slice(offset, offset + 64));
+  if (!header) {
+    throw new Error(`No object found at offset ${offset}`);
+  }
+
+  const start = offset + header[0].length;
+  const end = content.indexOf("endobj", start);
+  const streamIdx = content.indexOf("stream", start);
+
+  if (streamIdx === -1 || streamIdx > end) {
+    return { head: content.slice(start, end) };
+  }
+
+  const head = content.slice(start, streamIdx);
+  const lengthMatch = /\/Length\s+(\d+)(?:\s+\d+\s+R)?/.exec(head);
+  if (!lengthMatch) {
+    throw new Error(`The length of the stream at offset ${offset} is missing`);
+  }
+
+  let length = Number(lengthMatch[1]);
+
+  // The length can be stored in a separate object
+  if (/R$/.test(lengthMatch[0])) {
+    const lengthOffset = offsets.get(length);
+    const lengthObject =
+      lengthOffset !== undefined
+        ? /obj\s+(\d+)\s+endobj/.exec(
+            content.slice(lengthOffset, lengthOffset + 64),
+          )
+        : undefined;
+    if (!lengthObject) {
+      throw new Error(
+        `The length of the stream at offset ${offset} is missing`,
+      );
+    }
+    length = Number(lengthObject[1]);
+  }
+
+  // The stream data starts after the end of line following the keyword
+  let dataStart = streamIdx + "stream".length;
+  if (content[dataStart] === "\r") {
+    dataStart++;
+  }
+  if (content[dataStart] === "\n") {
+    dataStart++;
+  }
+
+  const streamEnd = content.indexOf("endobj", dataStart + length);
+
+  return { head, stream: content.slice(streamIdx, streamEnd) };
+};
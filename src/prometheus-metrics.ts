@@ -0,0 +1,305 @@
+import { EventEmitter } from "eventemitter3";
+import { TesseractOcrEvents } from "./events";
+
+type Labels = Record<string, string>;
+
+const DEFAULT_BUCKETS_SEC = [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels) => {
+  const entries = Object.entries(labels);
+
+  if (entries.length === 0) {
+    return "";
+  }
+
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabelValue(v)}"`).join(",")}}`;
+};
+
+const labelsKey = (labels: Labels) => JSON.stringify(labels);
+
+interface Metric {
+  render(): string[];
+}
+
+class Counter implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly type: "counter" | "gauge" = "counter",
+  ) {}
+
+  inc(labels: Labels = {}, amount = 1) {
+    const key = labelsKey(labels);
+    const current = this.values.get(key)?.value ?? 0;
+    this.values.set(key, { labels, value: current + amount });
+  }
+
+  set(labels: Labels, value: number) {
+    this.values.set(labelsKey(labels), { labels, value });
+  }
+
+  render() {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...[...this.values.values()].map(
+        ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`,
+      ),
+    ];
+  }
+}
+
+class Gauge extends Counter {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+}
+
+class Histogram implements Metric {
+  private series = new Map<
+    string,
+    { labels: Labels; buckets: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly bucketBounds: number[],
+  ) {}
+
+  observe(labels: Labels, value: number) {
+    const key = labelsKey(labels);
+    let series = this.series.get(key);
+
+    if (!series) {
+      series = {
+        labels,
+        buckets: this.bucketBounds.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.series.set(key, series);
+    }
+
+    this.bucketBounds.forEach((bound, idx) => {
+      if (value <= bound) {
+        series.buckets[idx]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render() {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+    ];
+
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      this.bucketBounds.forEach((bound, idx) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[idx]}`,
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+      );
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+
+    return lines;
+  }
+}
+
+export interface PrometheusMetricsOptions {
+  /**
+   * The prefix of the metric names
+   *
+   * @default "tesseract_ocr"
+   */
+  prefix?: string;
+
+  /**
+   * The upper bounds (in seconds) of the histogram buckets used for the durations
+   */
+  buckets?: number[];
+}
+
+/**
+ * Collects the events emitted by {@link TesseractOcrOnGolem} as Prometheus-style counters and histograms
+ *
+ * Use {@link render} to produce the text exposition format, for example in your `/metrics` endpoint.
+ */
+export class PrometheusMetrics {
+  private readonly tasksTotal: Counter;
+
+  private readonly taskDuration: Histogram;
+
+  private readonly queueWait: Histogram;
+
+  private readonly rentalsTotal: Counter;
+
+  private readonly proposalsRejectedTotal: Counter;
+
+  private readonly poolSize: Gauge;
+
+  private readonly tasksPending: Gauge;
+
+  private readonly cacheHitsTotal: Counter;
+
+  private readonly cacheSavedGlmTotal: Counter;
+
+  private readonly verificationsTotal: Counter;
+
+  private readonly providerMismatchesTotal: Counter;
+
+  constructor(options: PrometheusMetricsOptions = {}) {
+    const prefix = options.prefix ?? "tesseract_ocr";
+    const buckets = options.buckets ?? DEFAULT_BUCKETS_SEC;
+
+    this.tasksTotal = new Counter(
+      `${prefix}_tasks_total`,
+      "Number of completed OCR tasks by outcome and provider",
+    );
+    this.taskDuration = new Histogram(
+      `${prefix}_task_duration_seconds`,
+      "Time spent executing the OCR tasks",
+      buckets,
+    );
+    this.queueWait = new Histogram(
+      `${prefix}_queue_wait_seconds`,
+      "Time the OCR tasks waited for a free worker",
+      buckets,
+    );
+    this.rentalsTotal = new Counter(
+      `${prefix}_rental_events_total`,
+      "Number of rental lifecycle events by kind",
+    );
+    this.proposalsRejectedTotal = new Counter(
+      `${prefix}_proposals_rejected_total`,
+      "Number of offers from providers which were rejected",
+    );
+    this.poolSize = new Gauge(
+      `${prefix}_pool_size`,
+      "Number of rentals in the pool by state",
+    );
+    this.tasksPending = new Gauge(
+      `${prefix}_tasks_pending`,
+      "Number of tasks waiting for a rental",
+    );
+    this.cacheHitsTotal = new Counter(
+      `${prefix}_cache_hits_total`,
+      "Number of OCR tasks served from the cache",
+    );
+    this.cacheSavedGlmTotal = new Counter(
+      `${prefix}_cache_saved_glm_total`,
+      "Estimated cost in GLM of the OCR tasks served from the cache",
+    );
+    this.verificationsTotal = new Counter(
+      `${prefix}_verifications_total`,
+      "Number of OCR tasks verified on multiple providers by outcome",
+    );
+    this.providerMismatchesTotal = new Counter(
+      `${prefix}_provider_mismatches_total`,
+      "Number of times the outputs of the provider differed from the other providers",
+    );
+  }
+
+  /**
+   * Starts collecting the metrics from the events
+   *
+   * @returns A function which stops the collection
+   */
+  observe(events: EventEmitter<TesseractOcrEvents>): () => void {
+    const handlers: {
+      [E in keyof TesseractOcrEvents]?: TesseractOcrEvents[E];
+    } = {
+      taskStarted: ({ kind, queueWaitMs }) =>
+        this.queueWait.observe({ kind }, queueWaitMs / 1000),
+      taskSucceeded: ({ kind, provider, durationMs }) => {
+        this.tasksTotal.inc({
+          kind,
+          status: "succeeded",
+          provider_id: provider.id,
+        });
+        this.taskDuration.observe(
+          { kind, provider_id: provider.id },
+          durationMs / 1000,
+        );
+      },
+      taskFailed: ({ kind, provider, durationMs }) => {
+        const providerId = provider?.id ?? "none";
+        this.tasksTotal.inc({
+          kind,
+          status: "failed",
+          provider_id: providerId,
+        });
+        this.taskDuration.observe(
+          { kind, provider_id: providerId },
+          durationMs / 1000,
+        );
+      },
+      taskCacheHit: ({ kind, savedGlm }) => {
+        this.cacheHitsTotal.inc({ kind });
+        this.cacheSavedGlmTotal.inc({}, savedGlm);
+      },
+      taskVerified: ({ kind, agreed, suspicious }) => {
+        this.verificationsTotal.inc({
+          kind,
+          outcome: agreed ? "agreed" : "mismatch",
+        });
+        suspicious.forEach((provider) =>
+          this.providerMismatchesTotal.inc({ provider_id: provider.id }),
+        );
+      },
+      rentalAcquired: () => this.rentalsTotal.inc({ event: "acquired" }),
+      rentalReleased: () => this.rentalsTotal.inc({ event: "released" }),
+      rentalDestroyed: () => this.rentalsTotal.inc({ event: "destroyed" }),
+      proposalRejected: () => this.proposalsRejectedTotal.inc(),
+      poolSizeChanged: ({ size, available, borrowed, pending }) => {
+        this.poolSize.set({ state: "total" }, size);
+        this.poolSize.set({ state: "available" }, available);
+        this.poolSize.set({ state: "borrowed" }, borrowed);
+        this.tasksPending.set({}, pending);
+      },
+    };
+
+    const entries = Object.entries(handlers) as [
+      keyof TesseractOcrEvents,
+      (...args: unknown[]) => void,
+    ][];
+
+    entries.forEach(([eventName, handler]) => events.on(eventName, handler));
+
+    return () =>
+      entries.forEach(([eventName, handler]) => events.off(eventName, handler));
+  }
+
+  /**
+   * Renders the metrics in the Prometheus text exposition format
+   */
+  render(): string {
+    const metrics: Metric[] = [
+      this.tasksTotal,
+      this.taskDuration,
+      this.queueWait,
+      this.rentalsTotal,
+      this.proposalsRejectedTotal,
+      this.poolSize,
+      this.tasksPending,
+      this.cacheHitsTotal,
+      this.cacheSavedGlmTotal,
+      this.verificationsTotal,
+      this.providerMismatchesTotal,
+    ];
+
+    return metrics.flatMap((metric) => metric.render()).join("\n") + "\n";
+  }
+}
@@ -0,0 +1,463 @@
+import * as fs from "fs";
+import path from "path";
+import debug, { Debugger } from "debug";
+import { WorkerProvider } from "./backend";
+import { OcrExecutionError, OcrProviderError, OcrTimeoutError } from "./errors";
+
+/**
+ * Controls when the providers are blocked because of their failures
+ */
+export interface ProviderScoringConfig {
+  /**
+   * How many tasks in a row the provider can fail before it gets blocked
+   *
+   * @default 3
+   */
+  maxConsecutiveFailures?: number;
+
+  /**
+   * The provider gets blocked when the share of the tasks it completed successfully drops below this value
+   *
+   * @default 0.5
+   */
+  minSuccessRate?: number;
+
+  /**
+   * How many tasks the provider has to execute before its success rate is taken into account
+   *
+   * @default 10
+   */
+  minTasksForSuccessRate?: number;
+
+  /**
+   * How many times the provider can return the outputs which the other providers didn't agree with before it gets
+   * blocked, see {@link VerificationConfig}
+   *
+   * @default 3
+   */
+  maxMismatches?: number;
+
+  /**
+   * For how long (in seconds) the provider stays blocked
+   *
+   * @default 24 hours
+   */
+  blockDurationSec?: number;
+}
+
+/**
+ * The kinds of failures of the tasks
+ *
+ * - `timeout` - the task didn't complete within the execution timeout
+ * - `transfer` - uploading the image or downloading the results failed
+ * - `execution` - the ExeUnit failed to run the command
+ * - `input` - Tesseract ran, but failed because of the input, like a corrupt or unsupported image. Either Tesseract
+ *   reported that it couldn't read the image, or two distinct providers failed with the same exit code
+ *
+ * The `input` failures are not the provider's fault, so they are not recorded for the providers.
+ */
+export type ProviderFailureType =
+  | "timeout"
+  | "transfer"
+  | "execution"
+  | "input";
+
+/**
+ * How the provider performed in the tasks executed so far
+ */
+export interface ProviderStats {
+  provider: WorkerProvider;
+
+  /** The number of successfully completed tasks */
+  succeeded: number;
+
+  /** The number of failed tasks, the cancelled ones are not counted */
+  failed: number;
+
+  /** The number of failures by their type */
+  failures: Partial<Record<ProviderFailureType, number>>;
+
+  /** The number of tasks failed since the last successful one */
+  consecutiveFailures: number;
+
+  /**
+   * The number of times the outputs of the provider differed from the ones of the other providers, since its last
+   * block expired
+   */
+  mismatches?: number;
+
+  /** The total time (in milliseconds) spent on the successful tasks */
+  totalDurationMs: number;
+
+  /** The timestamp of the last task */
+  lastTaskAt: number;
+
+  /** The timestamp until which the provider is blocked, if it is */
+  blockedUntil?: number;
+
+  /** Why the provider got blocked */
+  blockReason?: string;
+}
+
+const DEFAULT_MAX_CONSECUTIVE_FAILURES = 3;
+
+const DEFAULT_MIN_SUCCESS_RATE = 0.5;
+
+const DEFAULT_MIN_TASKS_FOR_SUCCESS_RATE = 10;
+
+const DEFAULT_MAX_MISMATCHES = 3;
+
+const DEFAULT_BLOCK_DURATION_SEC = 24 * 60 * 60;
+
+/** The writes to the stats file are batched, as there can be many tasks per second */
+const SAVE_DELAY_MS = 1000;
+
+/** Success rates closer than this are considered equal, so that the faster provider is preferred */
+const SUCCESS_RATE_TOLERANCE = 0.05;
+
+const STATS_FILE_VERSION = 1;
+
+/** The messages of Tesseract and Leptonica which tell that the image can't be read */
+const INPUT_ERROR_PATTERN =
+  /Error in (pixRead|findFileFormat)|Unknown format|Unsupported image type|Image file .+ cannot be read/i;
+
+/**
+ * Tells which kind of failure the error represents
+ *
+ * @param previous - The error of the previous attempt of the same task, if any
+ */
+export const classifyFailure = (
+  err: unknown,
+  previous?: unknown,
+): ProviderFailureType => {
+  if (err instanceof OcrTimeoutError) {
+    return "timeout";
+  }
+
+  // The exit code is known only when the command itself ran, otherwise the ExeUnit failed to run it
+  if (
+    err instanceof OcrExecutionError &&
+    err.exitCode !== undefined &&
+    err.exitCode >= 0
+  ) {
+    if (INPUT_ERROR_PATTERN.test(err.stderr)) {
+      return "input";
+    }
+
+    // Without the evidence, the input is at fault only if another provider failed the same way
+    const failedElsewhere =
+      previous instanceof OcrExecutionError &&
+      previous.exitCode === err.exitCode &&
+      previous.provider.id !== err.provider.id;
+
+    return failedElsewhere ? "input" : "execution";
+  }
+
+  if (err instanceof OcrExecutionError) {
+    return "execution";
+  }
+
+  if (err instanceof OcrProviderError) {
+    return "transfer";
+  }
+
+  // The errors of the SDK which are not wrapped, like the failures of the ExeUnit
+  const message = err instanceof Error ? err.message : String(err);
+
+  return /upload|download/i.test(message) ? "transfer" : "execution";
+};
+
+/**
+ * Keeps track of the performance of the providers and decides which of them should be blocked or preferred
+ *
+ * The stats can be persisted in a JSON file, so that they are kept between the sessions.
+ */
+export class ProviderScoreboard {
+  private readonly stats = new Map<string, ProviderStats>();
+
+  private readonly logger: Debugger;
+
+  private saveTimer?: NodeJS.Timeout;
+
+  private saving = Promise.resolve();
+
+  constructor(
+    private readonly config: ProviderScoringConfig = {},
+    private readonly statsFile?: string,
+  ) {
+    this.logger = debug("golem");
+  }
+
+  /**
+   * Reads the stats persisted by the previous sessions, a missing or malformed file is ignored
+   */
+  async load() {
+    if (!this.statsFile) {
+      return;
+    }
+
+    try {
+      const content = JSON.parse(
+        await fs.promises.readFile(this.statsFile, "utf-8"),
+      );
+
+      if (content.version !== STATS_FILE_VERSION) {
+        this.logger("Ignoring provider stats file with unknown version");
+        return;
+      }
+
+      for (const entry of content.providers as ProviderStats[]) {
+        this.stats.set(entry.provider.id, entry);
+      }
+
+      this.logger(
+        "Loaded stats of %d providers from %s",
+        this.stats.size,
+        this.statsFile,
+      );
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        this.logger("Failed to load the provider stats: %s", err);
+      }
+    }
+  }
+
+  /**
+   * Writes the pending changes to the stats file
+   */
+  async flush() {
+    clearTimeout(this.saveTimer);
+    this.saveTimer = undefined;
+
+    if (!this.statsFile) {
+      return;
+    }
+
+    const statsFile = this.statsFile;
+    const content = JSON.stringify(
+      { version: STATS_FILE_VERSION, providers: [...this.stats.values()] },
+      null,
+      2,
+    );
+
+    // Chain the writes, so that an older snapshot never overwrites a newer one
+    this.saving = this.saving.then(async () => {
+      try {
+        const tmpPath = `${statsFile}.tmp`;
+        await fs.promises.mkdir(path.dirname(statsFile), { recursive: true });
+        await fs.promises.writeFile(tmpPath, content);
+        await fs.promises.rename(tmpPath, statsFile);
+      } catch (err) {
+        this.logger("Failed to save the provider stats: %s", err);
+      }
+    });
+
+    await this.saving;
+  }
+
+  recordSuccess(provider: WorkerProvider, durationMs: number) {
+    const stats = this.getOrCreate(provider);
+
+    stats.succeeded++;
+    stats.consecutiveFailures = 0;
+    stats.totalDurationMs += durationMs;
+    stats.lastTaskAt = Date.now();
+
+    this.scheduleSave();
+  }
+
+  /**
+   * @returns The details of the block, if the failure made the provider blocked
+   */
+  recordFailure(
+    provider: WorkerProvider,
+    type: Exclude<ProviderFailureType, "input">,
+  ): { reason: string; blockedUntil: number } | undefined {
+    const stats = this.getOrCreate(provider);
+    const isBlocked = this.getBlockReason(provider.id) !== undefined;
+
+    stats.failed++;
+    stats.failures[type] = (stats.failures[type] ?? 0) + 1;
+    stats.consecutiveFailures++;
+    stats.lastTaskAt = Date.now();
+
+    this.scheduleSave();
+
+    if (isBlocked) {
+      return undefined;
+    }
+
+    return this.block(provider, stats);
+  }
+
+  /**
+   * Records that the outputs of the provider differed from the ones returned by the other providers for the same task
+   *
+   * @returns The details of the block, if the mismatch made the provider blocked
+   */
+  recordMismatch(
+    provider: WorkerProvider,
+  ): { reason: string; blockedUntil: number } | undefined {
+    const stats = this.getOrCreate(provider);
+    const isBlocked = this.getBlockReason(provider.id) !== undefined;
+
+    stats.mismatches = (stats.mismatches ?? 0) + 1;
+    stats.lastTaskAt = Date.now();
+
+    this.scheduleSave();
+
+    if (isBlocked) {
+      return undefined;
+    }
+
+    return this.block(provider, stats);
+  }
+
+  /**
+   * @returns The reason why the provider is blocked, or undefined if it isn't
+   */
+  getBlockReason(providerId: string): string | undefined {
+    const stats = this.stats.get(providerId);
+
+    if (!stats?.blockedUntil) {
+      return undefined;
+    }
+
+    if (stats.blockedUntil <= Date.now()) {
+      // Give the provider another chance, the stats of the past still count towards the success rate
+      stats.blockedUntil = undefined;
+      stats.blockReason = undefined;
+      stats.consecutiveFailures = 0;
+      stats.mismatches = 0;
+      this.scheduleSave();
+      return undefined;
+    }
+
+    return stats.blockReason;
+  }
+
+  /**
+   * Orders the providers from the most to the least preferred: the reliable ones go first, and from the equally
+   * reliable ones, the faster ones
+   *
+   * The providers without any history are considered as reliable as the ones with a half of the tasks completed.
+   */
+  compare(providerIdA: string, providerIdB: string): number {
+    const a = this.stats.get(providerIdA);
+    const b = this.stats.get(providerIdB);
+
+    const rateDiff = this.getSuccessRate(b) - this.getSuccessRate(a);
+
+    if (Math.abs(rateDiff) > SUCCESS_RATE_TOLERANCE) {
+      return rateDiff;
+    }
+
+    return this.getAverageDurationMs(a) - this.getAverageDurationMs(b);
+  }
+
+  getStats(): ProviderStats[] {
+    return [...this.stats.values()].map((s) => ({
+      ...s,
+      provider: { ...s.provider },
+      failures: { ...s.failures },
+    }));
+  }
+
+  /**
+   * Blocks the provider if its stats call for it
+   */
+  private block(
+    provider: WorkerProvider,
+    stats: ProviderStats,
+  ): { reason: string; blockedUntil: number } | undefined {
+    const reason = this.evaluateBlock(stats);
+
+    if (!reason) {
+      return undefined;
+    }
+
+    const blockedUntil =
+      Date.now() +
+      (this.config.blockDurationSec ?? DEFAULT_BLOCK_DURATION_SEC) * 1000;
+
+    stats.blockedUntil = blockedUntil;
+    stats.blockReason = reason;
+    this.logger("Blocking provider %s because %s", provider.id, reason);
+
+    return { reason, blockedUntil };
+  }
+
+  private evaluateBlock(stats: ProviderStats): string | undefined {
+    const maxConsecutiveFailures =
+      this.config.maxConsecutiveFailures ?? DEFAULT_MAX_CONSECUTIVE_FAILURES;
+
+    if (stats.consecutiveFailures >= maxConsecutiveFailures) {
+      return `it failed ${stats.consecutiveFailures} tasks in a row`;
+    }
+
+    const maxMismatches = this.config.maxMismatches ?? DEFAULT_MAX_MISMATCHES;
+
+    if ((stats.mismatches ?? 0) >= maxMismatches) {
+      return `its outputs differed from the ones of the other providers ${stats.mismatches} times`;
+    }
+
+    const total = stats.succeeded + stats.failed;
+    const minTasks =
+      this.config.minTasksForSuccessRate ?? DEFAULT_MIN_TASKS_FOR_SUCCESS_RATE;
+    const minSuccessRate =
+      this.config.minSuccessRate ?? DEFAULT_MIN_SUCCESS_RATE;
+
+    if (total >= minTasks && stats.succeeded / total < minSuccessRate) {
+      return `it completed only ${stats.succeeded} of ${total} tasks`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * The success rate smoothed with one success and one failure, so that a single outcome doesn't dominate
+   */
+  private getSuccessRate(stats?: ProviderStats) {
+    return (
+      ((stats?.succeeded ?? 0) + 1) /
+      ((stats?.failed ?? 0) + (stats?.succeeded ?? 0) + 2)
+    );
+  }
+
+  /**
+   * The providers without successful tasks are treated as the slowest
+   */
+  private getAverageDurationMs(stats?: ProviderStats) {
+    return stats?.succeeded
+      ? stats.totalDurationMs / stats.succeeded
+      : Number.MAX_SAFE_INTEGER;
+  }
+
+  private getOrCreate(provider: WorkerProvider): ProviderStats {
+    let stats = this.stats.get(provider.id);
+
+    if (!stats) {
+      stats = {
+        provider: { id: provider.id, name: provider.name },
+        succeeded: 0,
+        failed: 0,
+        failures: {},
+        consecutiveFailures: 0,
+        totalDurationMs: 0,
+        lastTaskAt: Date.now(),
+      };
+      this.stats.set(provider.id, stats);
+    }
+
+    return stats;
+  }
+
+  private scheduleSave() {
+    if (!this.statsFile || this.saveTimer) {
+      return;
+    }
+
+    this.saveTimer = setTimeout(() => void this.flush(), SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+}
@@ -0,0 +1,338 @@
+import { OcrInvalidArgsError, OcrInputError } from "./errors";
+import { BoundingBox, parseTsv } from "./ocr-result";
+import { TesseractArgs } from "./tesseract-args";
+import { printMarker, shellQuote, splitMarkedOutputs } from "./remote-script";
+import { VerificationOutcome } from "./verification";
+
+/**
+ * A named rectangle of the image from which the text is extracted
+ */
+export interface OcrRegion {
+  /** The name of the field, used as the key in {@link ExtractionResult.fields} */
+  name: string;
+
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+
+  /**
+   * Tesseract args for this region, applied on top of the ones of the request, like a `charWhitelist` for the
+   * numeric fields
+   *
+   * The `psm` of the request doesn't apply to the regions. Tesseract reads the zones only with the `psm` 4-13, and
+   * recognizes a region as a single block of text (`psm` 6) unless set here, like `psm` 7 for a single line.
+   */
+  args?: TesseractArgs;
+}
+
+/**
+ * The regions to extract from the images of the same layout, like the fields of a form
+ */
+export interface OcrTemplate {
+  regions: OcrRegion[];
+
+  /**
+   * How the coordinates of the regions are expressed
+   *
+   * - `px` - in pixels of the image
+   * - `relative` - as fractions of the width and the height of the image, between 0 and 1, which makes the template
+   *   independent from the resolution of the scans (PNG, JPEG, GIF, BMP and TIFF images are supported)
+   *
+   * @default "px"
+   */
+  unit?: "px" | "relative";
+}
+
+/**
+ * The text extracted from a single region
+ */
+export interface ExtractedField {
+  text: string;
+
+  /** The mean confidence of the recognized words in range 0-100, 0 if no words were recognized */
+  confidence: number;
+
+  /** The region in pixels of the image */
+  bbox: BoundingBox;
+}
+
+/**
+ * The outcome of {@link TesseractOcrOnGolem.extractFields}
+ */
+export interface ExtractionResult {
+  /** The extracted fields keyed by the names of the regions */
+  fields: Record<string, ExtractedField>;
+
+  /** True when the result was served from the cache instead of running the OCR */
+  cached?: boolean;
+
+  /** How the providers agreed on the fields, present when the request was verified */
+  verification?: VerificationOutcome;
+}
+
+/** The page segmentation modes with which Tesseract reads the zone file */
+const MIN_REGION_PSM = 4;
+const MAX_REGION_PSM = 13;
+
+/** Tesseract recognizes the region as a single block of text */
+export const DEFAULT_REGION_PSM = 6;
+
+/**
+ * @throws OcrInvalidArgsError if the template is invalid
+ */
+export const validateTemplate = (template: OcrTemplate) => {
+  if (template.regions.length === 0) {
+    throw new OcrInvalidArgsError(
+      "The template has to contain at least one region",
+    );
+  }
+
+  const names = new Set<string>();
+  const maxValue = template.unit === "relative" ? 1 : Infinity;
+
+  for (const region of template.regions) {
+    if (!region.name) {
+      throw new OcrInvalidArgsError("The regions have to be named");
+    }
+
+    if (names.has(region.name)) {
+      throw new OcrInvalidArgsError(
+        `The template contains more than one region named ${region.name}`,
+      );
+    }
+    names.add(region.name);
+
+    const { left, top, width, height } = region;
+    const valid =
+      [left, top, width, height].every(
+        (v) => Number.isFinite(v) && v >= 0 && v <= maxValue,
+      ) &&
+      width > 0 &&
+      height > 0;
+
+    if (!valid) {
+      throw new OcrInvalidArgsError(
+        `Invalid coordinates of the region ${region.name}`,
+      );
+    }
+
+    const psm = region.args?.psm;
+    if (
+      psm !== undefined &&
+      !(Number.isInteger(psm) && psm >= MIN_REGION_PSM && psm <= MAX_REGION_PSM)
+    ) {
+      throw new OcrInvalidArgsError(
+        `The psm of the region ${region.name} has to be between ${MIN_REGION_PSM} and ${MAX_REGION_PSM}`,
+      );
+    }
+  }
+};
+
+/**
+ * Converts the region to pixels of the image
+ */
+export const toPixels = (
+  region: OcrRegion,
+  unit: OcrTemplate["unit"],
+  imageSize?: { width: number; height: number },
+): BoundingBox => {
+  if (unit !== "relative") {
+    return {
+      left: Math.round(region.left),
+      top: Math.round(region.top),
+      width: Math.max(1, Math.round(region.width)),
+      height: Math.max(1, Math.round(region.height)),
+    };
+  }
+
+  if (!imageSize) {
+    throw new OcrInputError(
+      "The size of the image is required to use the relative coordinates",
+    );
+  }
+
+  return {
+    left: Math.round(region.left * imageSize.width),
+    top: Math.round(region.top * imageSize.height),
+    width: Math.max(1, Math.round(region.width * imageSize.width)),
+    height: Math.max(1, Math.round(region.height * imageSize.height)),
+  };
+};
+
+/**
+ * Builds the contents of the UNLV zone file, which makes Tesseract recognize only the given rectangle
+ */
+export const buildZoneFile = (bbox: BoundingBox) =>
+  `${bbox.left} ${bbox.top} ${bbox.width} ${bbox.height} Text\n`;
+
+/**
+ * A region prepared for the execution on the worker
+ */
+export interface RegionCommand {
+  /** The link to the image, named after the zone file, as Tesseract looks for the zone file next to the image */
+  imagePath: string;
+
+  zonePath: string;
+
+  bbox: BoundingBox;
+
+  /** The command line options of Tesseract for this region */
+  args: string[];
+}
+
+/** Separates the outputs of the regions, it never collides with the TSV lines which start with a number */
+const REGION_MARKER = "@@region";
+
+/**
+ * Builds the shell script which runs Tesseract for each of the regions one after another, printing their TSV outputs
+ * separated with the marker lines which carry the exit codes
+ */
+export const buildRegionScript = (
+  inputPath: string,
+  regions: RegionCommand[],
+) =>
+  regions
+    .map((region) =>
+      [
+        `printf '%s' ${shellQuote(buildZoneFile(region.bbox))} > ${shellQuote(region.zonePath)}`,
+        `ln -sf ${shellQuote(inputPath)} ${shellQuote(region.imagePath)}`,
+        `tesseract ${[region.imagePath, "stdout", ...region.args, "tsv"].map(shellQuote).join(" ")}`,
+        printMarker(REGION_MARKER),
+      ].join("\n"),
+    )
+    .join("\n");
+
+/**
+ * Splits the output of the script built by {@link buildRegionScript} into the outputs of the regions
+ */
+export const splitRegionOutputs = (stdout: string) =>
+  splitMarkedOutputs(stdout, REGION_MARKER);
+
+/**
+ * Builds the field from the TSV output of the region
+ */
+export const buildField = (tsv: string, bbox: BoundingBox): ExtractedField => {
+  const pages = parseTsv(tsv);
+  const words = pages.flatMap((page) =>
+    page.blocks.flatMap((block) => block.lines.flatMap((line) => line.words)),
+  );
+
+  return {
+    text: pages
+      .map((page) => page.text)
+      .join("\n")
+      .trim(),
+    confidence: words.length
+      ? words.reduce((sum, word) => sum + word.confidence, 0) / words.length
+      : 0,
+    bbox,
+  };
+};
+
+/**
+ * Reads the dimensions of the image from the header of PNG, JPEG, GIF, BMP or TIFF files
+ *
+ * @returns The size in pixels, or undefined if the format is not recognized
+ */
+export const readImageSize = (
+  data: Buffer,
+): { width: number; height: number } | undefined => {
+  // PNG: the IHDR chunk follows the signature
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  // GIF: the logical screen descriptor follows the signature
+  if (data.length >= 10 && data.toString("ascii", 0, 3) === "GIF") {
+    return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+
+  // BMP: the height is negative for the top-down bitmaps
+  if (data.length >= 26 && data.toString("ascii", 0, 2) === "BM") {
+    return {
+      width: data.readInt32LE(18),
+      height: Math.abs(data.readInt32LE(22)),
+    };
+  }
+
+  if (data.length >= 4 && data.readUInt16BE(0) === 0xffd8) {
+    return readJpegSize(data);
+  }
+
+  if (
+    data.length >= 8 &&
+    (data.toString("ascii", 0, 4) === "II*\0" ||
+      data.toString("ascii", 0, 4) === "MM\0*")
+  ) {
+    return readTiffSize(data);
+  }
+
+  return undefined;
+};
+
+/** The start of frame markers, which carry the dimensions of the image */
+const JPEG_SOF_MARKERS = new Set([
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+]);
+
+const readJpegSize = (data: Buffer) => {
+  let offset = 2;
+
+  while (offset + 9 <= data.length) {
+    if (data[offset] !== 0xff) {
+      return undefined;
+    }
+
+    const marker = data[offset + 1];
+
+    if (JPEG_SOF_MARKERS.has(marker)) {
+      return {
+        height: data.readUInt16BE(offset + 5),
+        width: data.readUInt16BE(offset + 7),
+      };
+    }
+
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+
+  return undefined;
+};
+
+const TIFF_TAG_IMAGE_WIDTH = 256;
+const TIFF_TAG_IMAGE_LENGTH = 257;
+
+const readTiffSize = (data: Buffer) => {
+  const le = data[0] === 0x49;
+  const u16 = (o: number) => (le ? data.readUInt16LE(o) : data.readUInt16BE(o));
+  const u32 = (o: number) => (le ? data.readUInt32LE(o) : data.readUInt32BE(o));
+
+  const ifdOffset = u32(4);
+  if (ifdOffset + 2 > data.length) {
+    return undefined;
+  }
+
+  let width: number | undefined;
+  let height: number | undefined;
+
+  for (let idx = 0; idx < u16(ifdOffset); idx++) {
+    const entry = ifdOffset + 2 + idx * 12;
+    if (entry + 12 > data.length) {
+      break;
+    }
+
+    const tag = u16(entry);
+    // SHORT or LONG
+    const value = u16(entry + 2) === 3 ? u16(entry + 8) : u32(entry + 8);
+
+    if (tag === TIFF_TAG_IMAGE_WIDTH) {
+      width = value;
+    } else if (tag === TIFF_TAG_IMAGE_LENGTH) {
+      height = value;
+    }
+  }
+
+  return width !== undefined && height !== undefined
+    ? { width, height }
+    : undefined;
+};
@@ -0,0 +1,40 @@
+/**
+ * Quotes the value for the POSIX shell, so that it's never interpreted by it
+ */
+export const shellQuote = (value: string) =>
+  `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Builds the shell command which prints the marker line with the exit code of the previous command
+ *
+ * Use it after each of the commands of a script, so that their outputs can be told apart with
+ * {@link splitMarkedOutputs}.
+ */
+export const printMarker = (marker: string) =>
+  `printf '\\n%s %d\\n' ${shellQuote(marker)} $?`;
+
+/**
+ * Splits the output of a script into the outputs of the commands followed by {@link printMarker}
+ */
+export const splitMarkedOutputs = (
+  stdout: string,
+  marker: string,
+): { output: string; exitCode: number }[] => {
+  const escaped = marker.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const pattern = new RegExp(`^${escaped} (\\d+)$`, "gm");
+  const outputs: { output: string; exitCode: number }[] = [];
+  let start = 0;
+
+  for (const match of stdout.matchAll(pattern)) {
+    const index = match.index ?? 0;
+
+    outputs.push({
+      // Skip the new line printed before the marker, in case the output doesn't end with one
+      output: stdout.slice(start, Math.max(start, index - 1)),
+      exitCode: Number(match[1]),
+    });
+    start = index + match[0].length + 1;
+  }
+
+  return outputs;
+};
@@ -0,0 +1,271 @@
+/**
+ * Scheduling settings of a single tenant
+ */
+export interface TenantConfig {
+  /**
+   * The share of the workers the tenant gets when competing with the other tenants
+   *
+   * @default 1
+   */
+  weight?: number;
+
+  /**
+   * How many requests of the tenant can be executed at the same time
+   *
+   * @default unlimited
+   */
+  maxConcurrency?: number;
+}
+
+/**
+ * Controls the order in which the queued OCR requests get the workers
+ *
+ * The requests with higher priority are always dispatched first. Requests with the same priority are dispatched
+ * to the tenant which uses the smallest share of the workers relative to its weight, in the arrival order within
+ * the tenant.
+ */
+export interface SchedulingConfig {
+  /**
+   * How many requests are passed to the backend at the same time, the rest waits in the queue
+   *
+   * Defaults to `service.deploy.maxReplicas` when running on the Golem Network, unlimited otherwise.
+   */
+  maxConcurrency?: number;
+
+  /** Settings of the particular tenants */
+  tenants?: Record<string, TenantConfig>;
+
+  /** Settings of the tenants not listed in {@link tenants} */
+  defaultTenant?: TenantConfig;
+}
+
+/**
+ * The queue and the execution of a single tenant's requests
+ */
+export interface TenantQueueInfo {
+  /** Requests waiting in the queue */
+  queued: number;
+
+  /** Requests passed to the backend */
+  running: number;
+}
+
+export interface QueueInfo extends TenantQueueInfo {
+  tenants: Record<string, TenantQueueInfo>;
+}
+
+/**
+ * A request for a slot in the scheduler
+ */
+export interface ScheduleRequest {
+  tenant: string;
+  priority: number;
+  signal?: AbortSignal;
+}
+
+interface QueueEntry {
+  priority: number;
+  seq: number;
+  dispatch: () => void;
+}
+
+interface TenantState {
+  queue: QueueEntry[];
+  running: number;
+  /** When the tenant got its last slot, to break the ties in favour of the tenant waiting longer */
+  lastServedSeq: number;
+}
+
+export const DEFAULT_TENANT = "default";
+
+/**
+ * Holds the OCR requests until the backend has the capacity to execute them, in the order defined by the priorities
+ * and the fair share of the tenants
+ */
+export class TaskScheduler {
+  private readonly tenants = new Map<string, TenantState>();
+
+  private running = 0;
+
+  private seq = 0;
+
+  constructor(private readonly config: SchedulingConfig = {}) {
+    const configs = [
+      ...Object.values(config.tenants ?? {}),
+      config.defaultTenant ?? {},
+    ];
+
+    if (configs.some((t) => t.weight !== undefined && !(t.weight > 0))) {
+      throw new Error("The weights of the tenants have to be positive");
+    }
+  }
+
+  /**
+   * Waits until the request can be passed to the backend
+   *
+   * @returns The function which frees the slot, it has to be called once the request completes
+   * @throws the reason of the signal if it aborts while the request is queued
+   */
+  acquire(request: ScheduleRequest): Promise<() => void> {
+    const state = this.getTenantState(request.tenant);
+
+    return new Promise((resolve, reject) => {
+      const { signal } = request;
+
+      if (signal?.aborted) {
+        return reject(signal.reason);
+      }
+
+      const onAbort = () => {
+        state.queue.splice(state.queue.indexOf(entry), 1);
+        this.removeIfIdle(request.tenant);
+        reject(signal?.reason);
+      };
+
+      const entry: QueueEntry = {
+        priority: request.priority,
+        seq: this.seq++,
+        dispatch: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(this.createRelease(request.tenant));
+        },
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.enqueue(state, entry);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Returns the number of queued and running requests, in total and per tenant
+   */
+  getQueueInfo(): QueueInfo {
+    const tenants: Record<string, TenantQueueInfo> = {};
+    let queued = 0;
+
+    for (const [tenant, state] of this.tenants) {
+      tenants[tenant] = { queued: state.queue.length, running: state.running };
+      queued += state.queue.length;
+    }
+
+    return { queued, running: this.running, tenants };
+  }
+
+  private getTenantState(tenant: string): TenantState {
+    let state = this.tenants.get(tenant);
+
+    if (!state) {
+      state = { queue: [], running: 0, lastServedSeq: -1 };
+      this.tenants.set(tenant, state);
+    }
+
+    return state;
+  }
+
+  private getTenantConfig(tenant: string): TenantConfig {
+    return this.config.tenants?.[tenant] ?? this.config.defaultTenant ?? {};
+  }
+
+  /**
+   * Keeps the queue of the tenant ordered by the priority and then by the arrival
+   */
+  private enqueue(state: TenantState, entry: QueueEntry) {
+    let idx = state.queue.length;
+
+    while (idx > 0 && state.queue[idx - 1].priority < entry.priority) {
+      idx--;
+    }
+
+    state.queue.splice(idx, 0, entry);
+  }
+
+  private dispatch() {
+    const maxConcurrency = this.config.maxConcurrency ?? Infinity;
+
+    while (this.running < maxConcurrency) {
+      const next = this.pickNextTenant();
+
+      if (!next) {
+        return;
+      }
+
+      const [tenant, state] = next;
+      const entry = state.queue.shift() as QueueEntry;
+
+      state.running++;
+      state.lastServedSeq = this.seq++;
+      this.running++;
+
+      this.removeIfIdle(tenant);
+      entry.dispatch();
+    }
+  }
+
+  private pickNextTenant(): [string, TenantState] | undefined {
+    let best: [string, TenantState] | undefined;
+    let bestShare = 0;
+
+    for (const [tenant, state] of this.tenants) {
+      const head = state.queue[0];
+      const config = this.getTenantConfig(tenant);
+
+      if (!head || state.running >= (config.maxConcurrency ?? Infinity)) {
+        continue;
+      }
+
+      const share = state.running / (config.weight ?? 1);
+
+      if (!best) {
+        best = [tenant, state];
+        bestShare = share;
+        continue;
+      }
+
+      const bestHead = best[1].queue[0];
+      const isBetter =
+        head.priority > bestHead.priority ||
+        (head.priority === bestHead.priority &&
+          (share < bestShare ||
+            (share === bestShare &&
+              state.lastServedSeq < best[1].lastServedSeq)));
+
+      if (isBetter) {
+        best = [tenant, state];
+        bestShare = share;
+      }
+    }
+
+    return best;
+  }
+
+  private createRelease(tenant: string) {
+    let released = false;
+
+    return () => {
+      if (released) {
+        return;
+      }
+
+      released = true;
+
+      const state = this.getTenantState(tenant);
+      state.running--;
+      this.running--;
+
+      this.removeIfIdle(tenant);
+      this.dispatch();
+    };
+  }
+
+  /**
+   * Forgets the tenants without any requests, so that the per-tenant stats list only the active ones
+   */
+  private removeIfIdle(tenant: string) {
+    const state = this.tenants.get(tenant);
+
+    if (state && state.running === 0 && state.queue.length === 0) {
+      this.tenants.delete(tenant);
+    }
+  }
+}
@@ -0,0 +1,216 @@
+import { OcrInvalidArgsError } from "./errors";
+
+/**
+ * Tesseract OCR specific options that the user might want to use in order to tweak the performance or outcomes
+ *
+ * Please refer to the CLI docs {@link https://tesseract-ocr.github.io/tessdoc/Command-Line-Usage.html} for details
+ * of particular settings.
+ */
+export interface TesseractArgs {
+  /**
+   * The language that the OCR should use when trying to extract text from the image
+   *
+   * Multiple languages can be provided as an array or joined with `+`, like `eng+deu`.
+   */
+  lang?: string | string[];
+
+  /** Determine which page segmentation model should be used, between 0 and 13 */
+  psm?: number;
+
+  /** Determine which of the OCR engines should be used in Tesseract 5, between 0 and 3 */
+  oem?: number;
+
+  /** The resolution of the input image, useful when the image doesn't carry this information */
+  dpi?: number;
+
+  /**
+   * Config variables passed with `-c`, like `{ tessedit_do_invert: false }`
+   *
+   * Boolean values are passed as `1` and `0`.
+   */
+  variables?: Record<string, string | number | boolean>;
+
+  /** Limits the recognized characters to these ones (the `tessedit_char_whitelist` variable) */
+  charWhitelist?: string;
+
+  /** Excludes these characters from the recognized ones (the `tessedit_char_blacklist` variable) */
+  charBlacklist?: string;
+
+  /** Keeps the spacing between the words (the `preserve_interword_spaces` variable) */
+  preserveInterwordSpaces?: boolean;
+
+  /** Words which should be added to the dictionary, uploaded as the `--user-words` file */
+  userWords?: string[];
+
+  /** Patterns which help to recognize the text, uploaded as the `--user-patterns` file */
+  userPatterns?: string[];
+}
+
+/**
+ * A file which has to be uploaded to the worker before running Tesseract
+ */
+export interface TesseractArgsFile {
+  remotePath: string;
+  content: string;
+}
+
+const LANGUAGE_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// eslint-disable-next-line no-control-regex
+const CONTROL_CHARS_PATTERN = /[\x00-\x1f]/;
+
+const assertIntegerInRange = (
+  name: string,
+  value: number | undefined,
+  min: number,
+  max: number,
+) => {
+  if (
+    value !== undefined &&
+    (!Number.isInteger(value) || value < min || value > max)
+  ) {
+    throw new OcrInvalidArgsError(
+      `Invalid Tesseract args: ${name} has to be an integer between ${min} and ${max}, got ${value}`,
+    );
+  }
+};
+
+const getLanguages = (lang: TesseractArgs["lang"]): string[] => {
+  if (lang === undefined) {
+    return [];
+  }
+
+  return (Array.isArray(lang) ? lang : [lang]).flatMap((l) => l.split("+"));
+};
+
+const getVariables = (args: TesseractArgs): [string, string][] => {
+  const variables: Record<string, string | number | boolean> = {
+    ...args.variables,
+  };
+
+  if (args.charWhitelist !== undefined) {
+    variables["tessedit_char_whitelist"] = args.charWhitelist;
+  }
+
+  if (args.charBlacklist !== undefined) {
+    variables["tessedit_char_blacklist"] = args.charBlacklist;
+  }
+
+  if (args.preserveInterwordSpaces !== undefined) {
+    variables["preserve_interword_spaces"] = args.preserveInterwordSpaces;
+  }
+
+  return Object.entries(variables).map(([name, value]) => [
+    name,
+    typeof value === "boolean" ? (value ? "1" : "0") : String(value),
+  ]);
+};
+
+/**
+ * Makes sure that the args can be safely passed to Tesseract
+ *
+ * @throws OcrInvalidArgsError if any of the values is out of range or contains characters which Tesseract can't handle
+ */
+export const validateTesseractArgs = (args: TesseractArgs) => {
+  const languages = getLanguages(args.lang);
+  const invalidLanguages = languages.filter((l) => !LANGUAGE_PATTERN.test(l));
+
+  if (
+    invalidLanguages.length > 0 ||
+    (args.lang !== undefined && !languages.length)
+  ) {
+    throw new OcrInvalidArgsError(
+      `Invalid Tesseract args: unsupported language names ${JSON.stringify(invalidLanguages)}`,
+    );
+  }
+
+  assertIntegerInRange("psm", args.psm, 0, 13);
+  assertIntegerInRange("oem", args.oem, 0, 3);
+  assertIntegerInRange("dpi", args.dpi, 1, 10000);
+
+  for (const [name, value] of getVariables(args)) {
+    if (!VARIABLE_NAME_PATTERN.test(name)) {
+      throw new OcrInvalidArgsError(
+        `Invalid Tesseract args: unsupported variable name ${name}`,
+      );
+    }
+
+    if (CONTROL_CHARS_PATTERN.test(value)) {
+      throw new OcrInvalidArgsError(
+        `Invalid Tesseract args: the value of ${name} contains control characters`,
+      );
+    }
+  }
+
+  const entries = [...(args.userWords ?? []), ...(args.userPatterns ?? [])];
+  if (entries.some((entry) => entry === "" || /[\r\n]/.test(entry))) {
+    throw new OcrInvalidArgsError(
+      "Invalid Tesseract args: user words and patterns have to be non-empty single lines",
+    );
+  }
+};
+
+/**
+ * Builds the list of the command line options for Tesseract
+ *
+ * Each value is a separate argument, so the command is executed without involving a shell.
+ *
+ * @param args - The validated args.
+ * @param remoteBase - The path on the worker used as the prefix of the files which need to be uploaded.
+ */
+export const buildTesseractArgs = (
+  args: TesseractArgs,
+  remoteBase: string,
+): { args: string[]; files: TesseractArgsFile[] } => {
+  const cliArgs: string[] = [];
+  const files: TesseractArgsFile[] = [];
+
+  const languages = getLanguages(args.lang);
+  if (languages.length > 0) {
+    cliArgs.push("-l", languages.join("+"));
+  }
+
+  if (args.oem !== undefined) {
+    cliArgs.push("--oem", args.oem.toString());
+  }
+
+  if (args.psm !== undefined) {
+    cliArgs.push("--psm", args.psm.toString());
+  }
+
+  if (args.dpi !== undefined) {
+    cliArgs.push("--dpi", args.dpi.toString());
+  }
+
+  if (args.userWords?.length) {
+    const remotePath = `${remoteBase}.user-words`;
+    cliArgs.push("--user-words", remotePath);
+    files.push({ remotePath, content: args.userWords.join("\n") + "\n" });
+  }
+
+  if (args.userPatterns?.length) {
+    const remotePath = `${remoteBase}.user-patterns`;
+    cliArgs.push("--user-patterns", remotePath);
+    files.push({ remotePath, content: args.userPatterns.join("\n") + "\n" });
+  }
+
+  for (const [name, value] of getVariables(args)) {
+    cliArgs.push("-c", `${name}=${value}`);
+  }
+
+  return { args: cliArgs, files };
+};
+
+/**
+ * Applies the per-call args on top of the defaults from the configuration
+ */
+export const mergeTesseractArgs = (
+  defaults: TesseractArgs = {},
+  overrides: TesseractArgs = {},
+): TesseractArgs => ({
+  ...defaults,
+  ...overrides,
+  variables: { ...defaults.variables, ...overrides.variables },
+});
@@ -1,61 +1,416 @@
 import path from "path";
-import {
-  Golem,
-  GolemApiConfig,
-  GolemMarketConfig,
-  ServiceDeploymentConfig,
-} from "./golem";
 import * as fs from "fs";
+import * as os from "os";
 import debug from "debug";
+import { randomUUID } from "crypto";
+import { EventEmitter } from "eventemitter3";
+import {
+  OcrOutputFormat,
+  OcrResult,
+  OUTPUT_FORMAT_EXTENSIONS,
+  parseHocr,
+  parseTsv,
+} from "./ocr-result";
+import {
+  DEFAULT_PAGE_SPLITTERS,
+  DocumentPageResult,
+  DocumentResult,
+  PageSplitter,
+  readFileHeader,
+} from "./document";
+import { mergePdfs } from "./pdf-merge";
+import {
+  createRemoteFileName,
+  materializeInput,
+  OcrInput,
+  ResolvedInput,
+  resolveInput,
+} from "./input";
+import { CostInfo } from "./cost-tracker";
+import {
+  OcrBackend,
+  OcrWorker,
+  WorkerProvider,
+  WorkerPoolStatus,
+  WorkerSetupHook,
+  WorkResult,
+} from "./backend";
+import {
+  BACKEND_EVENT_NAMES,
+  BackendEvents,
+  OcrLifecycleState,
+  TesseractOcrEvents,
+} from "./events";
+import { GolemBackend, GolemServiceConfig } from "./golem-backend";
+import {
+  buildTesseractArgs,
+  mergeTesseractArgs,
+  TesseractArgs,
+  validateTesseractArgs,
+} from "./tesseract-args";
+import {
+  createModelInstaller,
+  getTessdataDir,
+  hashModel,
+  TesseractModel,
+  validateModels,
+} from "./models";
+import {
+  createCancellationScope,
+  raceWithSignal,
+  toAbortError,
+} from "./cancellation";
+import {
+  OcrAbortedError,
+  OcrError,
+  OcrExecutionError,
+  OcrInputError,
+  OcrInvalidArgsError,
+  OcrNotInitializedError,
+  OcrVerificationError,
+} from "./errors";
+import {
+  canonicalJson,
+  computeCacheKey,
+  decodeCacheEntry,
+  encodeCacheEntry,
+  OcrCacheStore,
+} from "./cache";
+import {
+  applyOsd,
+  AutoDetectOptions,
+  DEFAULT_SCRIPT_LANGUAGES,
+  OsdResult,
+  parseOsd,
+  validateAutoDetect,
+} from "./osd";
+import {
+  BatchCollector,
+  BatchingConfig,
+  BatchItemResult,
+  BatchOutcome,
+  buildBatchScript,
+  createTarArchive,
+} from "./batch";
+import { splitMarkedOutputs } from "./remote-script";
+import { BulkItem, BulkJob, BulkMode } from "./bulk";
+import { JobJournal } from "./journal";
+import {
+  buildField,
+  buildRegionScript,
+  DEFAULT_REGION_PSM,
+  ExtractionResult,
+  OcrTemplate,
+  readImageSize,
+  RegionCommand,
+  splitRegionOutputs,
+  toPixels,
+  validateTemplate,
+} from "./regions";
+import {
+  DEFAULT_MIN_SIMILARITY,
+  DEFAULT_VERIFICATION_COPIES,
+  findConsensus,
+  getComparableText,
+  validateVerificationConfig,
+  VerificationConfig,
+  VerificationOutcome,
+} from "./verification";
+import {
+  DEFAULT_TENANT,
+  QueueInfo,
+  SchedulingConfig,
+  TaskScheduler,
+} from "./scheduler";
+
+export interface TesseractOcrOnGolemConfig {
+  /**
+   * Configuration options to use when getting compute resources from the Golem Network
+   *
+   * This configuration is concerned only with the settings which are relevant in the Tesseract OCR use-case.
+   * Required unless a custom {@link backend} is provided.
+   */
+  service?: GolemServiceConfig;
+
+  /**
+   * The execution environment to run Tesseract in
+   *
+   * By default, the OCR runs on the Golem Network according to the {@link service} configuration. Provide
+   * a {@link LocalBackend} to use a locally installed Tesseract or a {@link FakeBackend} in unit tests.
+   */
+  backend?: OcrBackend;
+
+  /**
+   * Tesseract OCR specific arguments that the user might want to use in order to tweak the performance or outcomes
+   */
+  args?: TesseractArgs;
+
+  /**
+   * Splitters used by {@link TesseractOcrOnGolem.convertDocument} to break multi-page documents into pages
+   *
+   * Defaults to splitting multi-frame TIFF files and PDF files (requires `pdftoppm` to be installed).
+   */
+  pageSplitters?: PageSplitter[];
+
+  /**
+   * Custom language models installed once on each worker, before it executes its first task
+   *
+   * Refer to them by their `lang` in {@link TesseractArgs.lang}, the stock languages remain available.
+   */
+  models?: TesseractModel[];
+
+  /**
+   * Hooks which run once on each worker (a rental on the Golem Network), before it executes its first task
+   *
+   * They run after the custom {@link models} are installed.
+   */
+  setup?: WorkerSetupHook[];
+
+  /**
+   * Controls how the requests of many tenants share the workers, using their {@link ConvertOptions.priority} and
+   * {@link ConvertOptions.tenant}
+   */
+  scheduling?: SchedulingConfig;
+
+  /**
+   * Stores the results keyed by the hash of the image and the effective Tesseract args, so that the OCR of the same
+   * image is not paid for twice
+   *
+   * Use {@link MemoryCacheStore}, {@link DiskCacheStore} or your own implementation of {@link OcrCacheStore}.
+   */
+  cache?: OcrCacheStore;
+
+  /**
+   * The languages used for the scripts detected by the OSD when {@link AutoDetectOptions.language} is requested,
+   * merged with the {@link DEFAULT_SCRIPT_LANGUAGES}
+   *
+   * The keys are the script names reported by Tesseract, like `Latin` or `Cyrillic`.
+   */
+  scriptLanguages?: Record<string, string | string[]>;
+
+  /**
+   * Makes {@link TesseractOcrOnGolem.convertImageToText} group the concurrent requests with the same settings into
+   * batches, which are uploaded as a single archive and processed by a single command on the provider
+   *
+   * Worth it for many small images, where the round-trips to the provider take longer than the OCR itself. Also
+   * controls the batches of {@link TesseractOcrOnGolem.convertImagesToText}, which always batches the images.
+   */
+  batching?: BatchingConfig;
+
+  /**
+   * Executes the requests (all of them, or a sample) on multiple distinct providers and compares their outputs, so
+   * that a broken or malicious provider can't return wrong results unnoticed
+   *
+   * The copies are executed one after another, which multiplies both the cost and the duration of the verified
+   * requests. On the Golem Network, allow more replicas than the copies.
+   */
+  verification?: VerificationConfig;
+}
+
+const DEFAULT_OUTPUT_FORMATS: OcrOutputFormat[] = ["txt", "tsv"];
 
 /**
- * Tesseract OCR specific options that the user might want to use in order to tweak the performance or outcomes
- *
- * Please refer to the CLI docs {@link https://tesseract-ocr.github.io/tessdoc/Command-Line-Usage.html} for details
- * of particular settings.
+ * A snapshot of the state of {@link TesseractOcrOnGolem}
  */
-export interface TesseractArgs {
-  /** The language that the OCR should use when trying to extract text from the image */
-  lang?: string;
+export interface OcrStatus {
+  state: OcrLifecycleState;
 
-  /** Determine which page segmentation model should be used */
-  psm?: number;
+  /** For how long (in seconds) the OCR has been ready, 0 if it's not ready */
+  uptimeSec: number;
 
-  /** Determine which of the OCR engines should be used in Tesseract 5 */
-  oem?: number;
-}
+  /** The requests accepted and not completed yet, including the ones waiting in the queue */
+  inFlightRequests: number;
 
-type MakeOptional<T, P extends keyof T> = Omit<T, P> & Partial<Pick<T, P>>;
+  /** The requests waiting for a worker and the ones being executed, in total and per tenant */
+  queue: QueueInfo;
 
-export interface TesseractOcrOnGolemConfig {
+  /** The workers (rentals on the Golem Network), if the backend reports them */
+  workers?: WorkerPoolStatus;
+}
+
+export interface ShutdownOptions {
   /**
-   * Configuration options to use when getting compute resources from the Golem Network
+   * How long (in seconds) to wait for the requests in flight to complete, before they are aborted
    *
-   * This configuration is concerned only with the settings which are relevant in the Tesseract OCR use-case
+   * @default no limit
    */
-  service: {
-    api?: GolemApiConfig;
-    market: MakeOptional<GolemMarketConfig, "paymentNetwork">;
-    deploy: ServiceDeploymentConfig;
-    initTimeoutSec: number;
-    requestStartTimeoutSec: number;
-  };
+  drainTimeoutSec?: number;
+}
+
+type OcrOutputs = Partial<Record<OcrOutputFormat | "osd", Buffer>>;
+
+/** An image waiting in a batch along with the settings shared by the whole batch */
+interface BatchItem {
+  source: ResolvedInput;
+  args: TesseractArgs;
+  options: ConvertOptions;
+}
 
+/**
+ * Options of a single OCR request
+ */
+export interface ConvertOptions {
   /**
-   * Tesseract OCR specific arguments that the user might want to use in order to tweak the performance or outcomes
+   * Tesseract args for this request, applied on top of the ones from the configuration
+   *
+   * The `variables` are merged with the configured ones, the other settings replace them.
    */
   args?: TesseractArgs;
+
+  /**
+   * Cancels the request, which then rejects with {@link OcrAbortedError}
+   */
+  signal?: AbortSignal;
+
+  /**
+   * How long (in seconds) the request can wait for a free worker before it fails with {@link OcrTimeoutError}
+   *
+   * Includes the time spent in the scheduler queue behind the requests with higher priority or of other tenants.
+   * Defaults to `requestStartTimeoutSec` when running on the Golem Network.
+   */
+  queueTimeoutSec?: number;
+
+  /**
+   * How long (in seconds) the execution of the request on a worker can take before it fails with
+   * {@link OcrTimeoutError}
+   *
+   * The worker which runs the request is considered broken and gets replaced.
+   */
+  executionTimeoutSec?: number;
+
+  /**
+   * The customer (or any other key) on whose behalf the request is made, the tenants share the workers fairly
+   *
+   * @default "default"
+   */
+  tenant?: string;
+
+  /**
+   * Requests with higher priority get a worker before the queued requests with lower priority
+   *
+   * @default 0
+   */
+  priority?: number;
+
+  /**
+   * Runs Tesseract's orientation and script detection (OSD) before the OCR, on the same worker, and adjusts
+   * the rotation or the language of the OCR according to its outcome
+   *
+   * If the OSD fails, for example because the image contains too little text, the OCR runs with the args as they are.
+   */
+  autoDetect?: AutoDetectOptions;
+
+  /**
+   * Verifies the outputs of the request by executing it on multiple distinct providers, see
+   * {@link TesseractOcrOnGolemConfig.verification}
+   *
+   * Set to true for the documents which always need the verification, or to false to skip it.
+   *
+   * @default chosen at random according to the `sampleRate` of the verification, false if it's not configured
+   */
+  verify?: boolean;
+}
+
+/**
+ * Options of a bulk job, the OCR options apply to each of the items
+ */
+export interface BulkOptions extends RecognizeOptions {
+  /**
+   * What is done with each of the items, see {@link BulkMode}
+   *
+   * @default "text"
+   */
+  mode?: BulkMode;
+
+  /**
+   * How many items are submitted to the OCR at the same time, which also limits how many of the inputs are held in
+   * memory
+   *
+   * @default 10
+   */
+  concurrency?: number;
+
+  /**
+   * Keeps the results until they are consumed with the iterator, set to false when you only listen to the events of
+   * the job, so that the results of a large job are not kept in memory
+   *
+   * @default true
+   */
+  bufferResults?: boolean;
+
+  /**
+   * Records the items and their outcomes in a file, so that the job can be resumed after a crash or a restart
+   *
+   * The items already completed according to the journal are not processed again, they are reported with
+   * {@link BulkItemResult.fromJournal} instead. Give the items stable {@link BulkItem.id}s, as the items are matched
+   * with the journal by them.
+   */
+  journal?: JobJournal;
+}
+
+const DEFAULT_BULK_CONCURRENCY = 10;
+
+/**
+ * Options which control the output of a single structured OCR request
+ */
+export interface RecognizeOptions extends ConvertOptions {
+  /**
+   * Output formats which should be produced by Tesseract
+   *
+   * To get the bounding boxes and confidence scores in {@link OcrResult.pages}, include `tsv` or `hocr`.
+   *
+   * @default ["txt", "tsv"]
+   */
+  formats?: OcrOutputFormat[];
 }
 
 export class TesseractOcrOnGolem {
-  private golem?: Golem;
+  /**
+   * Lifecycle and task events, including the events of the backend about the resources it manages
+   */
+  readonly events = new EventEmitter<TesseractOcrEvents>();
+
+  private backend?: OcrBackend;
 
-  private isInitialized = false;
+  private state: OcrLifecycleState = "stopped";
+
+  /** When the OCR became ready */
+  private readyAt?: number;
+
+  private inFlight = 0;
+
+  private idleWaiters: (() => void)[] = [];
+
+  /** Aborts the requests in flight when the drain deadline passes or the OCR gets aborted */
+  private shutdownController = new AbortController();
+
+  /** Backends which already have the setup hooks registered, in case of a re-initialization */
+  private readonly preparedBackends = new WeakSet<OcrBackend>();
+
+  /** The hashes of the custom models by their path, size and modification time, see {@link hashModel} */
+  private readonly modelHashes = new Map<string, string>();
+
+  /** Backends whose events are already forwarded, in case of a re-initialization */
+  private readonly forwardedBackends = new WeakSet<OcrBackend>();
 
   private readonly logger: debug.Debugger;
 
+  private readonly scheduler: TaskScheduler;
+
+  private readonly batcher: BatchCollector<BatchItem, WorkResult<OcrOutputs>>;
+
   constructor(private config: TesseractOcrOnGolemConfig) {
     this.logger = debug("tesseract");
+    this.scheduler = new TaskScheduler({
+      ...config.scheduling,
+      // Requests queued in the pool are served in arrival order, so they need to wait here instead
+      maxConcurrency:
+        config.scheduling?.maxConcurrency ??
+        (config.backend ? undefined : config.service?.deploy.maxReplicas),
+    });
+    this.batcher = new BatchCollector(config.batching ?? {}, (items) =>
+      this.runBatch(items),
+    );
   }
 
   /**
@@ -67,48 +422,57 @@ export class TesseractOcrOnGolem {
    */
   async init() {
     this.logger("Initializing Tesseract On Golem");
+    this.setState("initializing");
+    this.shutdownController = new AbortController();
 
-    const apiKey = process.env["GOLEM_API_KEY"];
-
-    if (apiKey === undefined) {
-      throw new Error(
-        "You didn't specify the Golem API key in the config object or GOLEM_API_KEY environment setting",
+    try {
+      validateTesseractArgs(this.config.args ?? {});
+      Object.values(this.config.scriptLanguages ?? {}).forEach((lang) =>
+        validateTesseractArgs({ lang }),
       );
-    }
+      await validateModels(this.config.models ?? []);
 
-    const API_DEFAULTS: Pick<GolemApiConfig, "key" | "url"> = {
-      key: apiKey,
-      url: process.env["GOLEM_API_URL"] ?? "http://localhost:7465",
-    };
+      if (this.config.verification) {
+        validateVerificationConfig(this.config.verification);
 
-    const MARKET_DEFAULTS: Pick<GolemMarketConfig, "paymentNetwork"> = {
-      paymentNetwork: process.env["GOLEM_PAYMENT_NETWORK"] ?? "holesky",
-    };
+        // The copies of a request can't run on the same rental, and the rentals of the providers which already
+        // executed it have to leave room for the rental which the next copy needs while other requests are running
+        const copies =
+          this.config.verification.copies ?? DEFAULT_VERIFICATION_COPIES;
+        const maxReplicas = this.config.service?.deploy.maxReplicas;
 
-    const marketConfig: GolemMarketConfig = {
-      ...MARKET_DEFAULTS,
-      ...this.config.service.market,
-    };
+        if (
+          !this.config.backend &&
+          maxReplicas !== undefined &&
+          maxReplicas <= copies
+        ) {
+          throw new OcrInvalidArgsError(
+            `The verification on ${copies} providers requires at least ${copies + 1} replicas`,
+          );
+        }
+      }
 
-    if (marketConfig.withProviders === undefined) {
-      marketConfig.withProviders = await this.fetchRecommendedProviders(
-        marketConfig.paymentNetwork,
-      );
-    }
+      if (this.config.backend) {
+        this.backend = this.config.backend;
+      } else if (this.config.service) {
+        this.backend = new GolemBackend(this.config.service);
+      } else {
+        throw new Error(
+          "You need to provide either the service configuration or a custom backend",
+        );
+      }
 
-    this.golem = new Golem({
-      api: {
-        ...API_DEFAULTS,
-        ...this.config.service.api,
-      },
-      requestStartTimeoutSec: this.config.service.requestStartTimeoutSec,
-      deploy: this.config.service.deploy,
-      market: marketConfig,
-    });
+      this.forwardBackendEvents(this.backend);
+      this.registerSetupHooks(this.backend);
 
-    await this.golem.start();
+      await this.backend.start();
+    } catch (err) {
+      this.setState("failed");
+      throw err;
+    }
 
-    this.isInitialized = true;
+    this.readyAt = Date.now();
+    this.setState("ready");
 
     this.logger("Initialized Tesseract On Golem");
   }
@@ -116,157 +480,1560 @@ export class TesseractOcrOnGolem {
   /**
    * Converts an image to text using Tesseract on Golem.
    *
-   * @param sourcePath - The file path of the source image.
+   * @param input - The source image: a file path, a `file:` or `data:` URL, a Buffer or a readable stream.
+   * @param options - Allows overriding the Tesseract args, cancelling the request and limiting its duration.
    *
    * @returns A promise that resolves to the resulting text if successful,
    *                                          or undefined if there was an error.
    *
-   * @throws Error an error if the Tesseract On Golem is not initialized yet,
-   *                  or if the source image file does not exist,
-   *                  or if the OCR on Golem fails.
+   * @throws OcrNotInitializedError if the Tesseract On Golem is not initialized yet.
+   * @throws OcrInvalidArgsError if the Tesseract args are invalid.
+   * @throws OcrInputError if the source image file does not exist or can't be read.
+   * @throws OcrExecutionError if Tesseract failed on the provider, {@link OcrProviderError} if the provider failed
+   *                           otherwise.
+   * @throws OcrBudgetExceededError if the spending cap has been reached.
+   * @throws OcrTimeoutError if the request didn't get a worker or didn't complete in time.
+   * @throws OcrAbortedError if the request was cancelled.
    */
-  async convertImageToText(sourcePath: string): Promise<string | undefined> {
-    this.logger("Converting %s to text", sourcePath);
-
-    if (!this.isInitialized || !this.golem) {
-      throw new Error("The Tesseract On Golem is not initialized yet.");
-    }
-
-    if (!fs.existsSync(sourcePath)) {
-      throw new Error(`The source image file ${sourcePath} does not exist`);
-    }
-
-    const fileName = path.basename(sourcePath);
+  async convertImageToText(
+    input: OcrInput,
+    options: ConvertOptions = {},
+  ): Promise<string | undefined> {
+    return this.trackRequest(options, (tracked) => this.toText(input, tracked));
+  }
 
-    // The only bit which the user is concerned about when implementing the actual work on Golem
-    return this.golem.runWork(async (exe) => {
-      // Upload the file for processing
-      await exe.uploadFile(sourcePath, `/golem/work/${fileName}`);
+  /**
+   * Converts many images to text, uploading them to the providers in batches and processing each batch with a single
+   * command, which saves the round-trips to the provider for each of the images
+   *
+   * The failure of a single image does not fail the others, the failures are reported per image.
+   *
+   * @param inputs - The source images: file paths, `file:` or `data:` URLs, Buffers or readable streams.
+   * @param options - Allows overriding the Tesseract args, cancelling the request and limiting its duration. The
+   *                  timeouts apply to each of the batches, while the signal cancels all the images.
+   *
+   * @returns A promise that resolves to the per-image results in the order of the inputs.
+   *
+   * @throws OcrNotInitializedError if the Tesseract On Golem is not initialized yet.
+   * @throws OcrInvalidArgsError if the Tesseract args are invalid.
+   * @throws OcrAbortedError if the request was cancelled.
+   */
+  async convertImagesToText(
+    inputs: OcrInput[],
+    options: ConvertOptions = {},
+  ): Promise<BatchItemResult[]> {
+    return this.trackRequest(options, async (tracked) => {
+      // Fail fast instead of failing each of the images
+      this.resolveArgs(tracked.args);
 
-      // Run the processing
-      const cmdLine = `tesseract /golem/work/${fileName} stdout ${this.getArgsFromConfig()}`;
-      this.logger(
-        "Executing command '%s' on provider '%s'",
-        cmdLine,
-        exe.provider.name,
+      const settled = await Promise.allSettled(
+        inputs.map((input) => this.toText(input, tracked, true)),
       );
 
-      const res = await exe.run(cmdLine);
-      if (res.result !== "Ok") {
-        this.logger("Received result that contains: %O", res);
-        throw new Error("Failed to run the OCR on Golem");
+      if (tracked.signal?.aborted) {
+        throw toAbortError(tracked.signal.reason);
       }
 
-      // Remove the file to clean-up space
-      await exe.run(`rm /golem/work/${fileName}`);
-
-      // Return the resulting text
-      return res.stdout?.toString();
+      return settled.map((outcome) =>
+        outcome.status === "fulfilled"
+          ? { text: outcome.value }
+          : {
+              error:
+                outcome.reason instanceof Error
+                  ? outcome.reason
+                  : new Error(String(outcome.reason)),
+            },
+      );
     });
   }
 
-  async abort() {
-    this.logger("Aborting Tesseract On Golem");
-    await this.golem?.abort();
-    this.isInitialized = false;
-    this.logger("Aborted Tesseract On Golem");
-  }
-
   /**
-   * Stops the Tesseract service gracefully by shutting down the Golem
+   * Starts a bulk job which processes the items and reports the outcome of each of them as soon as it's completed
    *
-   * It's important to run this so that all OCR requests are gracefully completed
-   * and all payoffs on the Golem Network are completed.
+   * The failures of the items don't stop the job, they are reported per item. The job reports its progress along
+   * with the estimated time until completion.
    *
-   * @returns A Promise that resolves once the shutdown process is complete.
+   * @example
+   * ```ts
+   * const job = ocr.processBulk(files, { mode: "text" });
+   *
+   * for await (const { id, text, error } of job) {
+   *   console.log(id, text ?? error?.message, job.getProgress());
+   * }
+   * ```
+   *
+   * @param items - The inputs, or the inputs along with their IDs. Can be an async iterable, which is read as the
+   *                items are submitted, so that huge jobs don't have to be held in memory.
+   * @param options - Controls what is done with the items, how many of them are processed at the same time, and
+   *                  the OCR options applied to each of them. The signal cancels the items not completed yet.
+   *
+   * @returns The job, which is an async iterable of the per-item results in the order of their completion.
+   *
+   * @throws OcrNotInitializedError if the Tesseract On Golem is not initialized yet.
+   * @throws OcrInvalidArgsError if the concurrency is invalid.
    */
-  async shutdown() {
-    this.logger("Destroying Tesseract On Golem");
-    await this.golem?.stop();
-    this.isInitialized = false;
-    this.logger("Destroyed Tesseract On Golem");
-  }
+  processBulk(
+    items: Iterable<BulkItem | OcrInput> | AsyncIterable<BulkItem | OcrInput>,
+    options: BulkOptions = {},
+  ): BulkJob {
+    if (this.state !== "ready") {
+      throw new OcrNotInitializedError();
+    }
 
-  private getArgsFromConfig(): string {
-    const args: [string, string][] = [];
+    const {
+      mode = "text",
+      concurrency = DEFAULT_BULK_CONCURRENCY,
+      bufferResults = true,
+      ...ocrOptions
+    } = options;
 
-    if (this.config.args?.lang) {
-      args.push(["-l", this.config.args.lang]);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new OcrInvalidArgsError(
+        "The concurrency of the bulk job has to be a positive integer",
+      );
     }
 
-    if (this.config.args?.oem) {
-      args.push(["--oem", this.config.args.oem.toString()]);
-    }
+    return new BulkJob(
+      items,
+      async ({ input }) => {
+        switch (mode) {
+          case "text":
+            return { text: await this.convertImageToText(input, ocrOptions) };
+          case "recognize":
+            return { result: await this.recognizeImage(input, ocrOptions) };
+          case "document":
+            return { document: await this.convertDocument(input, ocrOptions) };
+        }
+      },
+      {
+        concurrency,
+        signal: options.signal,
+        bufferResults,
+        mode,
+        journal: options.journal,
+      },
+    );
+  }
+
+  /**
+   * Resumes the items of the bulk jobs which were not completed according to the journal, like after a crash
+   *
+   * Only the items with the inputs given as file paths or `file:` URLs can be resumed this way. Submit the items held
+   * in memory again with {@link processBulk}, using the same journal and IDs.
+   *
+   * @param journal - The journal of the interrupted jobs.
+   * @param options - The options of the bulk job, use the same `mode` as in the interrupted jobs.
+   *
+   * @returns The job processing the unfinished items.
+   *
+   * @throws OcrNotInitializedError if the Tesseract On Golem is not initialized yet.
+   * @throws OcrInvalidArgsError if the concurrency is invalid.
+   */
+  resumeBulk(
+    journal: JobJournal,
+    options: Omit<BulkOptions, "journal"> = {},
+  ): BulkJob {
+    async function* unfinished(): AsyncIterable<BulkItem> {
+      await journal.load();
 
-    if (this.config.args?.psm) {
-      args.push(["--psm", this.config.args.psm.toString()]);
+      for (const entry of journal.getUnfinished()) {
+        if (entry.input !== undefined) {
+          yield { id: entry.id, input: entry.input };
+        }
+      }
     }
 
-    return args.flat().join(" ");
+    return this.processBulk(unfinished(), { ...options, journal });
   }
 
-  // async getConstInfo() {
-  //   // TODO: Implement  (golem->activity->costs)
-  //   // return this.golem.getCostInfo();
-  // }
+  private async toText(
+    input: OcrInput,
+    options: ConvertOptions,
+    batch = this.config.batching !== undefined,
+  ): Promise<string | undefined> {
+    const tesseractArgs = this.resolveArgs(options.args);
+    validateAutoDetect(tesseractArgs, options.autoDetect);
+
+    const source = await resolveInput(input);
+    this.logger("Converting %s to text", source.label);
+
+    const fileName = createRemoteFileName(source);
+
+    // The detection and the verification need a run of their own, so those requests can't join a batch
+    const batched = batch && !options.autoDetect && !options.verify;
+
+    const { result } = await this.runCachedTask(
+      "text",
+      source,
+      this.getTaskSettings(tesseractArgs, options),
+      options,
+      batched
+        ? () => this.runBatched(source, tesseractArgs, options)
+        : (excludeProviders) =>
+            this.runTask(
+              "text",
+              options,
+              async (worker) => {
+                const remotePath = `${worker.workDir}/${fileName}`;
+
+                // Upload the file for processing
+                await this.uploadInput(worker, source, remotePath);
+
+                // Run the processing
+                const detected = await this.detectBeforeOcr(
+                  worker,
+                  remotePath,
+                  tesseractArgs,
+                  options.autoDetect,
+                );
+                const prepared = await this.prepareArgs(
+                  worker,
+                  detected.args,
+                  remotePath,
+                );
+                const args = [remotePath, "stdout", ...prepared.args];
+                this.logger(
+                  "Executing tesseract with args %o on provider '%s'",
+                  args,
+                  worker.provider.name,
+                );
+
+                const res = await worker.run("tesseract", args);
+                if (!res.ok) {
+                  this.logger("Received result that contains: %O", res);
+                  throw OcrExecutionError.fromCommand(
+                    `Tesseract failed on provider ${worker.provider.name}`,
+                    worker,
+                    res,
+                  );
+                }
+
+                // Remove the files to clean-up space
+                await worker.deleteFiles([remotePath, ...prepared.files]);
+
+                // Return the resulting text
+                return { txt: Buffer.from(res.stdout) };
+              },
+              excludeProviders,
+            ),
+    );
+
+    return result.txt?.toString();
+  }
 
   /**
-   * Since the network can contain broken or failing providers, we make use of the public whitelist of validated
-   * providers to increase the chance for a successful conversion
+   * Runs the OCR on an image and returns the outputs in the requested formats along with the recognized layout
+   *
+   * @param input - The source image: a file path, a `file:` or `data:` URL, a Buffer or a readable stream.
+   * @param options - Controls which output formats are produced, allows overriding the Tesseract args, cancelling
+   *                  the request and limiting its duration.
+   *
+   * @returns A promise that resolves to the structured result of the OCR.
+   *
+   * @throws OcrNotInitializedError if the Tesseract On Golem is not initialized yet.
+   * @throws OcrInvalidArgsError if the Tesseract args are invalid.
+   * @throws OcrInputError if the source image file does not exist or can't be read.
+   * @throws OcrExecutionError if Tesseract failed on the provider, {@link OcrProviderError} if the provider failed
+   *                           otherwise.
+   * @throws OcrBudgetExceededError if the spending cap has been reached.
+   * @throws OcrTimeoutError if the request didn't get a worker or didn't complete in time.
+   * @throws OcrAbortedError if the request was cancelled.
    */
-  private async fetchRecommendedProviders(paymentNetwork: string) {
-    this.logger(
-      "Downloading recommended provider list for payment network %s",
-      paymentNetwork,
+  async recognizeImage(
+    input: OcrInput,
+    options: RecognizeOptions = {},
+  ): Promise<OcrResult> {
+    return this.trackRequest(options, (tracked) =>
+      this.recognize(input, tracked),
     );
+  }
 
-    const FETCH_TIMEOUT_SEC = 30;
-    const FALLBACK_LIST: string[] = [];
+  private async recognize(
+    input: OcrInput,
+    options: RecognizeOptions,
+  ): Promise<OcrResult> {
+    const formats: OcrOutputFormat[] = [
+      ...new Set(options.formats ?? DEFAULT_OUTPUT_FORMATS),
+    ];
 
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(
-        () =>
-          controller.abort(
-            "Didn't download the recommended provider list on time",
-          ),
-        FETCH_TIMEOUT_SEC * 1000,
+    if (formats.length === 0) {
+      throw new OcrInvalidArgsError(
+        "At least one output format has to be requested",
       );
+    }
 
-      const response: Response = await fetch(
-        `https://reputation.golem.network/v1/provider-whitelist?paymentNetwork=${paymentNetwork}`,
-        {
-          headers: {
-            Accept: "application/json",
+    // The providers are compared by the text, which the other formats don't provide in a comparable form
+    if (
+      options.verify &&
+      !formats.includes("txt") &&
+      !formats.includes("tsv")
+    ) {
+      formats.push("txt");
+    }
+
+    const tesseractArgs = this.resolveArgs(options.args);
+    validateAutoDetect(tesseractArgs, options.autoDetect);
+
+    const source = await resolveInput(input);
+    this.logger("Recognizing %s with output formats %o", source.label, formats);
+
+    const fileName = createRemoteFileName(source);
+
+    const { result, cost, cached, verification } = await this.runCachedTask(
+      "recognize",
+      source,
+      { ...this.getTaskSettings(tesseractArgs, options), formats },
+      options,
+      (excludeProviders) =>
+        this.runTask(
+          "recognize",
+          options,
+          async (worker) => {
+            const inputPath = `${worker.workDir}/${fileName}`;
+            const outputBase = `${inputPath}.out`;
+            const outputPaths = formats.map(
+              (format) => `${outputBase}.${OUTPUT_FORMAT_EXTENSIONS[format]}`,
+            );
+
+            await this.uploadInput(worker, source, inputPath);
+            const detected = await this.detectBeforeOcr(
+              worker,
+              inputPath,
+              tesseractArgs,
+              options.autoDetect,
+            );
+            const prepared = await this.prepareArgs(
+              worker,
+              detected.args,
+              inputPath,
+            );
+
+            const args = [inputPath, outputBase, ...prepared.args, ...formats];
+            this.logger(
+              "Executing tesseract with args %o on provider '%s'",
+              args,
+              worker.provider.name,
+            );
+
+            const res = await worker.run("tesseract", args);
+            if (!res.ok) {
+              this.logger("Received result that contains: %O", res);
+              throw OcrExecutionError.fromCommand(
+                `Tesseract failed on provider ${worker.provider.name}`,
+                worker,
+                res,
+              );
+            }
+
+            const outputs: OcrOutputs = {};
+            if (detected.output) {
+              outputs.osd = detected.output;
+            }
+            for (const [idx, format] of formats.entries()) {
+              outputs[format] = await worker.downloadData(outputPaths[idx]);
+            }
+
+            // Remove the files to clean-up space
+            await worker.deleteFiles([
+              inputPath,
+              ...outputPaths,
+              ...prepared.files,
+            ]);
+
+            return outputs;
           },
-          signal: controller.signal,
-        },
-      );
+          excludeProviders,
+        ),
+    );
 
-      clearTimeout(timeoutId);
+    return { ...this.buildResult(result), cost, cached, verification };
+  }
 
-      if (!response.ok) {
-        this.logger(
-          "The response from the recommended providers endpoint was not OK %o. Using fallback.",
-          response.body,
-        );
+  /**
+   * Detects the orientation and the script of the text on the image, using Tesseract's OSD (`--psm 0`)
+   *
+   * Only the `dpi` of the Tesseract args is taken into account. The detection requires some text on the image,
+   * usually at least a few lines.
+   *
+   * @param input - The source image: a file path, a `file:` or `data:` URL, a Buffer or a readable stream.
+   * @param options - Allows cancelling the request and limiting its duration.
+   *
+   * @returns A promise that resolves to the detected rotation and script along with the confidences.
+   *
+   * @throws OcrNotInitializedError if the Tesseract On Golem is not initialized yet.
+   * @throws OcrInvalidArgsError if the Tesseract args are invalid.
+   * @throws OcrInputError if the source image file does not exist or can't be read.
+   * @throws OcrExecutionError if Tesseract failed on the provider or could not detect the orientation,
+   *                           {@link OcrProviderError} if the provider failed otherwise.
+   * @throws OcrBudgetExceededError if the spending cap has been reached.
+   * @throws OcrTimeoutError if the request didn't get a worker or didn't complete in time.
+   * @throws OcrAbortedError if the request was cancelled.
+   */
+  async detectOrientation(
+    input: OcrInput,
+    options: ConvertOptions = {},
+  ): Promise<OsdResult> {
+    return this.trackRequest(options, (tracked) => this.detect(input, tracked));
+  }
 
-        return FALLBACK_LIST;
-      }
+  private async detect(
+    input: OcrInput,
+    options: ConvertOptions,
+  ): Promise<OsdResult> {
+    const tesseractArgs = this.resolveArgs(options.args);
 
-      const data: string[] = await response.json();
+    const source = await resolveInput(input);
+    this.logger("Detecting the orientation of %s", source.label);
 
-      if (Array.isArray(data)) {
-        return data;
-      } else {
-        this.logger("The response is not a valid array, will be ignored");
-        return FALLBACK_LIST;
+    const fileName = createRemoteFileName(source);
+
+    const { result } = await this.runTask("osd", options, async (worker) => {
+      const remotePath = `${worker.workDir}/${fileName}`;
+
+      await this.uploadInput(worker, source, remotePath);
+      const res = await this.runOsd(worker, remotePath, tesseractArgs);
+      await worker.deleteFiles([remotePath]);
+
+      const osd = res.ok ? parseOsd(res.stdout) : undefined;
+      if (!osd) {
+        this.logger("Received result that contains: %O", res);
+        throw OcrExecutionError.fromCommand(
+          `Tesseract could not detect the orientation on provider ${worker.provider.name}`,
+          worker,
+          res,
+        );
       }
+
+      return osd;
+    });
+
+    return result;
+  }
+
+  /**
+   * Extracts the text of the named regions of the image, like the fields of a form or an invoice
+   *
+   * All the regions are processed in a single execution on the provider, with a single upload of the image.
+   *
+   * @param input - The source image: a file path, a `file:` or `data:` URL, a Buffer or a readable stream.
+   * @param template - The regions to extract, each of them can have its own Tesseract args.
+   * @param options - Allows overriding the Tesseract args of all the regions, cancelling the request and limiting its
+   *                  duration.
+   *
+   * @returns A promise that resolves to the text and the confidence of each of the regions.
+   *
+   * @throws OcrNotInitializedError if the Tesseract On Golem is not initialized yet.
+   * @throws OcrInvalidArgsError if the template or the Tesseract args are invalid.
+   * @throws OcrInputError if the source image file does not exist or can't be read, or the size of the image can't be
+   *                       determined for the relative coordinates.
+   * @throws OcrExecutionError if Tesseract failed on the provider, {@link OcrProviderError} if the provider failed
+   *                           otherwise.
+   * @throws OcrBudgetExceededError if the spending cap has been reached.
+   * @throws OcrTimeoutError if the request didn't get a worker or didn't complete in time.
+   * @throws OcrAbortedError if the request was cancelled.
+   */
+  async extractFields(
+    input: OcrInput,
+    template: OcrTemplate,
+    options: ConvertOptions = {},
+  ): Promise<ExtractionResult> {
+    return this.trackRequest(options, (tracked) =>
+      this.extract(input, template, tracked),
+    );
+  }
+
+  private async extract(
+    input: OcrInput,
+    template: OcrTemplate,
+    options: ConvertOptions,
+  ): Promise<ExtractionResult> {
+    validateTemplate(template);
+    const tesseractArgs = this.resolveArgs(options.args);
+
+    // The page segmentation of the request doesn't apply to the zones, each region has its own
+    const regionArgs = template.regions.map((region) =>
+      this.resolveArgs({
+        ...mergeTesseractArgs(tesseractArgs, region.args),
+        psm: region.args?.psm ?? DEFAULT_REGION_PSM,
+      }),
+    );
+
+    const source = await resolveInput(input);
+    this.logger(
+      "Extracting %d regions from %s",
+      template.regions.length,
+      source.label,
+    );
+
+    const imageSize =
+      template.unit === "relative"
+        ? readImageSize(
+            source.localPath
+              ? await fs.promises.readFile(source.localPath)
+              : Buffer.from(source.data ?? new Uint8Array()),
+          )
+        : undefined;
+    const boxes = template.regions.map((region) =>
+      toPixels(region, template.unit, imageSize),
+    );
+
+    const fileName = createRemoteFileName(source);
+
+    const { result, cached, verification } = await this.runCachedTask(
+      "regions",
+      source,
+      {
+        regions: boxes.map((bbox, idx) => ({ bbox, args: regionArgs[idx] })),
+      },
+      options,
+      (excludeProviders) =>
+        this.runTask(
+          "regions",
+          options,
+          async (worker) => {
+            const inputPath = `${worker.workDir}/${fileName}`;
+            await this.uploadInput(worker, source, inputPath);
+
+            const commands: RegionCommand[] = [];
+            const files: string[] = [inputPath];
+
+            for (const [idx, bbox] of boxes.entries()) {
+              const base = `${worker.workDir}/${randomUUID()}`;
+              const imagePath = `${base}.${source.extension ?? "img"}`;
+              const prepared = await this.prepareArgs(
+                worker,
+                regionArgs[idx],
+                imagePath,
+              );
+
+              commands.push({
+                imagePath,
+                zonePath: `${base}.uzn`,
+                bbox,
+                args: prepared.args,
+              });
+              files.push(imagePath, `${base}.uzn`, ...prepared.files);
+            }
+
+            const res = await worker.run("sh", [
+              "-c",
+              buildRegionScript(inputPath, commands),
+            ]);
+            const outputs = splitRegionOutputs(res.stdout);
+            const failed = outputs.findIndex((o) => o.exitCode !== 0);
+
+            if (
+              !res.ok ||
+              outputs.length !== commands.length ||
+              failed !== -1
+            ) {
+              this.logger("Received result that contains: %O", res);
+              throw OcrExecutionError.fromCommand(
+                failed !== -1
+                  ? `Tesseract failed on the region ${template.regions[failed].name} on provider ${worker.provider.name}`
+                  : `Tesseract failed on provider ${worker.provider.name}`,
+                worker,
+                res,
+              );
+            }
+
+            await worker.deleteFiles(files);
+
+            return { tsv: Buffer.from(res.stdout) };
+          },
+          excludeProviders,
+        ),
+    );
+
+    const outputs = splitRegionOutputs(result.tsv?.toString() ?? "");
+
+    return {
+      fields: Object.fromEntries(
+        template.regions.map((region, idx) => [
+          region.name,
+          buildField(outputs[idx]?.output ?? "", boxes[idx]),
+        ]),
+      ),
+      cached,
+      verification,
+    };
+  }
+
+  /**
+   * Converts a multi-page document (like a scanned PDF or a multi-frame TIFF) by splitting it into pages
+   * and running the OCR of the pages in parallel on the available replicas
+   *
+   * The failure of a single page does not fail the whole document, the failures are reported per page.
+   *
+   * @param input - The source document: a file path, a `file:` or `data:` URL, a Buffer or a readable stream.
+   * @param options - Controls which output formats are produced for each page and the Tesseract args. The timeouts
+   *                  apply to each of the pages, while the signal cancels the whole document.
+   *
+   * @returns A promise that resolves to the per-page results in the document order.
+   *
+   * @throws OcrNotInitializedError if the Tesseract On Golem is not initialized yet.
+   * @throws OcrInvalidArgsError if the Tesseract args are invalid.
+   * @throws OcrInputError if the source document does not exist or could not be split into pages.
+   * @throws OcrAbortedError if the processing of the document was cancelled.
+   */
+  async convertDocument(
+    input: OcrInput,
+    options: RecognizeOptions = {},
+  ): Promise<DocumentResult> {
+    return this.trackRequest(options, (tracked) =>
+      this.processDocument(input, tracked),
+    );
+  }
+
+  /**
+   * Converts an image or a multi-page document to a searchable PDF, with the original images and an invisible text
+   * layer
+   *
+   * Each page is rendered by Tesseract on the providers, and the resulting PDFs are merged into a single file in the
+   * document order.
+   *
+   * @param input - The source image or document: a file path, a `file:` or `data:` URL, a Buffer or a readable stream.
+   * @param options - Allows overriding the Tesseract args, cancelling the request and limiting its duration. The
+   *                  timeouts apply to each of the pages, while the signal cancels the whole document.
+   *
+   * @returns A promise that resolves to the contents of the PDF file.
+   *
+   * @throws OcrNotInitializedError if the Tesseract On Golem is not initialized yet.
+   * @throws OcrInvalidArgsError if the Tesseract args are invalid.
+   * @throws OcrInputError if the source document does not exist or could not be split into pages.
+   * @throws OcrExecutionError, OcrProviderError, OcrBudgetExceededError or OcrTimeoutError of the first page which
+   *         failed, as the PDF is not produced with any of the pages missing.
+   * @throws OcrError if the PDFs of the pages could not be merged.
+   * @throws OcrAbortedError if the processing of the document was cancelled.
+   */
+  async convertDocumentToPdf(
+    input: OcrInput,
+    options: ConvertOptions = {},
+  ): Promise<Buffer> {
+    return this.trackRequest(options, async (tracked) => {
+      const document = await this.processDocument(input, {
+        ...tracked,
+        formats: ["pdf"],
+      });
+
+      const failed = document.pages.find((page) => page.error);
+      if (failed?.error) {
+        throw failed.error;
+      }
+
+      if (!document.pdf) {
+        throw new OcrError("Tesseract did not produce the PDF output");
+      }
+
+      return document.pdf;
+    });
+  }
+
+  private async processDocument(
+    input: OcrInput,
+    options: RecognizeOptions,
+  ): Promise<DocumentResult> {
+    // Fail fast instead of failing each of the pages
+    this.resolveArgs(options.args);
+
+    const source = await resolveInput(input);
+    this.logger("Converting document %s", source.label);
+
+    const workDir = await fs.promises.mkdtemp(
+      path.join(os.tmpdir(), "tesseract-golem-"),
+    );
+
+    try {
+      const sourcePath = await materializeInput(source, workDir);
+      const pagePaths = await this.splitIntoPages(sourcePath, workDir);
+      this.logger("Document %s has %d pages", source.label, pagePaths.length);
+
+      const settled = await Promise.allSettled(
+        pagePaths.map((pagePath) => this.recognize(pagePath, options)),
+      );
+
+      if (options.signal?.aborted) {
+        throw toAbortError(options.signal.reason);
+      }
+
+      const pages = settled.map((outcome, idx): DocumentPageResult => {
+        const pageNum = idx + 1;
+
+        if (outcome.status === "rejected") {
+          this.logger("Page %d of %s failed", pageNum, source.label);
+          return {
+            pageNum,
+            error:
+              outcome.reason instanceof Error
+                ? outcome.reason
+                : new Error(String(outcome.reason)),
+          };
+        }
+
+        // The pages are processed as separate images, restore their numbers within the document
+        outcome.value.pages.forEach((page) => (page.pageNum = pageNum));
+
+        return { pageNum, result: outcome.value };
+      });
+
+      // The failed pages are kept as empty texts, so that the Nth segment is always the Nth page
+      const text = pages
+        .map(
+          (page) =>
+            page.result?.text ??
+            page.result?.pages.map((p) => p.text).join("\n") ??
+            "",
+        )
+        .join("\f");
+
+      const pagePdfs = pages.flatMap((page) =>
+        page.result?.pdf ? [page.result.pdf] : [],
+      );
+
+      return {
+        pages,
+        text,
+        pdf: pagePdfs.length > 0 ? mergePdfs(pagePdfs) : undefined,
+        failedPages: pages.filter((p) => p.error).map((p) => p.pageNum),
+        estimatedCostGlm: pages.reduce(
+          (sum, p) => sum + (p.result?.cost?.estimatedGlm ?? 0),
+          0,
+        ),
+      };
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Cancels the requests in flight and releases all resources right away
+   */
+  async abort() {
+    this.logger("Aborting Tesseract On Golem");
+    this.setState("draining");
+    this.shutdownController.abort(
+      new OcrAbortedError("The Tesseract On Golem was aborted"),
+    );
+
+    try {
+      await this.backend?.abort();
     } catch (err) {
+      this.setState("failed");
+      throw err;
+    }
+
+    this.setState("stopped");
+    this.logger("Aborted Tesseract On Golem");
+  }
+
+  /**
+   * Stops the Tesseract service gracefully by shutting down the Golem
+   *
+   * It's important to run this so that all OCR requests are gracefully completed
+   * and all payoffs on the Golem Network are completed. The new requests are rejected with
+   * {@link OcrNotInitializedError} as soon as the shutdown starts.
+   *
+   * @param options - Allows limiting the time for the requests in flight to complete, after which they are aborted.
+   *
+   * @returns A Promise that resolves once the shutdown process is complete.
+   */
+  async shutdown(options: ShutdownOptions = {}) {
+    this.logger("Destroying Tesseract On Golem");
+    this.setState("draining");
+
+    try {
+      const drained = await this.waitForInFlight(options.drainTimeoutSec);
+
+      if (drained) {
+        await this.backend?.stop();
+      } else {
+        this.logger(
+          "Aborting %d requests which didn't complete within %d seconds",
+          this.inFlight,
+          options.drainTimeoutSec,
+        );
+        this.shutdownController.abort(
+          new OcrAbortedError(
+            "The Tesseract On Golem was shut down before the request completed",
+          ),
+        );
+        await this.backend?.abort();
+      }
+    } catch (err) {
+      this.setState("failed");
+      throw err;
+    }
+
+    this.setState("stopped");
+    this.logger("Destroyed Tesseract On Golem");
+  }
+
+  /**
+   * Returns a snapshot of the lifecycle state, the requests in flight and the workers
+   */
+  getStatus(): OcrStatus {
+    return {
+      state: this.state,
+      uptimeSec:
+        this.state === "ready" && this.readyAt !== undefined
+          ? (Date.now() - this.readyAt) / 1000
+          : 0,
+      inFlightRequests: this.inFlight,
+      queue: this.scheduler.getQueueInfo(),
+      workers: this.backend?.getPoolStatus?.(),
+    };
+  }
+
+  /**
+   * Returns the number of the requests waiting for a worker and the ones being executed, in total and per tenant
+   */
+  getQueueInfo(): QueueInfo {
+    return this.scheduler.getQueueInfo();
+  }
+
+  private setState(state: OcrLifecycleState) {
+    if (state === this.state) {
+      return;
+    }
+
+    const previous = this.state;
+    this.state = state;
+    this.logger("Lifecycle state changed from %s to %s", previous, state);
+    this.events.emit("stateChanged", { state, previous });
+  }
+
+  /**
+   * Accepts the request only when the OCR is ready and keeps track of it until it completes, so that the shutdown can
+   * wait for it
+   *
+   * The request receives the options with the signal which also aborts when the drain deadline passes.
+   */
+  private async trackRequest<O extends ConvertOptions, T>(
+    options: O,
+    request: (options: O) => Promise<T>,
+  ): Promise<T> {
+    if (this.state !== "ready" || !this.backend) {
+      throw new OcrNotInitializedError(
+        this.state === "draining"
+          ? "The Tesseract On Golem is shutting down, no new requests are accepted."
+          : undefined,
+      );
+    }
+
+    const scope = createCancellationScope("execution", undefined, [
+      options.signal,
+      this.shutdownController.signal,
+    ]);
+
+    this.inFlight++;
+
+    try {
+      return await request({
+        ...options,
+        signal: scope.signal,
+        verify: options.verify ?? this.sampleVerification(),
+      });
+    } finally {
+      scope.dispose();
+      this.inFlight--;
+
+      if (this.inFlight === 0) {
+        this.idleWaiters.splice(0).forEach((resolve) => resolve());
+      }
+    }
+  }
+
+  /**
+   * @returns False if the requests in flight did not complete within the time limit
+   */
+  private async waitForInFlight(timeoutSec?: number): Promise<boolean> {
+    if (this.inFlight === 0) {
+      return true;
+    }
+
+    this.logger("Draining %d requests in flight", this.inFlight);
+
+    let timer: NodeJS.Timeout | undefined;
+    const idle = new Promise<boolean>((resolve) =>
+      this.idleWaiters.push(() => resolve(true)),
+    );
+    const deadline = new Promise<boolean>((resolve) => {
+      if (timeoutSec !== undefined) {
+        timer = setTimeout(() => resolve(false), timeoutSec * 1000);
+      }
+    });
+
+    try {
+      return await Promise.race([idle, deadline]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Serves the outputs from the cache if possible, otherwise runs the task (verified if requested) and caches its
+   * outputs
+   *
+   * The cache is best-effort, the failures of the store are logged and the OCR proceeds without it. The verified
+   * requests are served only with the outputs which were verified as well.
+   *
+   * @param execute - Runs the task on any provider other than the excluded ones.
+   */
+  private async runCachedTask(
+    kind: string,
+    source: ResolvedInput,
+    settings: Record<string, unknown>,
+    options: ConvertOptions,
+    execute: (excludeProviders: string[]) => Promise<WorkResult<OcrOutputs>>,
+  ): Promise<
+    WorkResult<OcrOutputs> & {
+      cached: boolean;
+      verification?: VerificationOutcome;
+    }
+  > {
+    const { cache } = this.config;
+    const run = () =>
+      options.verify ? this.runVerified(kind, options, execute) : execute([]);
+
+    if (!cache) {
+      return { ...(await run()), cached: false };
+    }
+
+    if (options.signal?.aborted) {
+      throw toAbortError(options.signal.reason);
+    }
+
+    const key = await computeCacheKey(source, {
+      kind,
+      ...settings,
+      models:
+        this.config.models &&
+        (await Promise.all(
+          this.config.models.map(async (m) => ({
+            lang: m.lang,
+            sha256: await hashModel(m, this.modelHashes),
+          })),
+        )),
+    });
+
+    try {
+      const stored = await cache.get(key);
+      const entry = stored && decodeCacheEntry(stored);
+
+      if (entry && (entry.verified || !options.verify)) {
+        this.logger("Serving %s from the cache", source.label);
+        this.events.emit("taskCacheHit", {
+          kind,
+          tenant: options.tenant ?? DEFAULT_TENANT,
+          key,
+          savedGlm: entry.estimatedGlm,
+        });
+
+        return { result: entry.outputs, cached: true };
+      }
+    } catch (err) {
+      this.logger("Failed to read from the cache: %O", err);
+    }
+
+    const outcome: WorkResult<OcrOutputs> & {
+      verification?: VerificationOutcome;
+    } = await run();
+
+    // The outputs the providers didn't agree on shouldn't be served to anyone else
+    if (outcome.verification?.agreed === false) {
+      return { ...outcome, cached: false };
+    }
+
+    try {
+      await cache.set(
+        key,
+        encodeCacheEntry({
+          outputs: outcome.result,
+          estimatedGlm: outcome.cost?.estimatedGlm ?? 0,
+          verified: outcome.verification?.agreed,
+        }),
+      );
+    } catch (err) {
+      this.logger("Failed to write to the cache: %O", err);
+    }
+
+    return { ...outcome, cached: false };
+  }
+
+  /**
+   * Runs the task on the configured number of distinct providers, one after another, and accepts the outputs which
+   * the majority of them agree on
+   *
+   * The providers which disagree with the majority, or all of them when there's no majority, are reported to
+   * the backend as suspicious.
+   *
+   * @throws OcrVerificationError if there's no majority and the mismatches are rejected.
+   */
+  private async runVerified(
+    kind: string,
+    options: ConvertOptions,
+    execute: (excludeProviders: string[]) => Promise<WorkResult<OcrOutputs>>,
+  ): Promise<WorkResult<OcrOutputs> & { verification: VerificationOutcome }> {
+    const config = this.config.verification ?? {};
+    const copies = config.copies ?? DEFAULT_VERIFICATION_COPIES;
+    const outcomes: WorkResult<OcrOutputs>[] = [];
+
+    for (let copy = 0; copy < copies; copy++) {
+      const excludeProviders = outcomes.flatMap((o) =>
+        o.provider ? [o.provider.id] : [],
+      );
+      outcomes.push(await execute(excludeProviders));
+    }
+
+    const providers = outcomes.map(
+      (o) => o.provider ?? { id: "unknown", name: "unknown" },
+    );
+    const consensus = findConsensus(
+      outcomes.map((o) => getComparableText(o.result)),
+      config.minSimilarity ?? DEFAULT_MIN_SIMILARITY,
+    );
+    const accepted = consensus.accepted ?? 0;
+
+    const verification: VerificationOutcome = {
+      agreed: consensus.accepted !== undefined,
+      similarity: consensus.similarity,
+      providers: [
+        providers[accepted],
+        ...providers.filter((_, idx) => idx !== accepted),
+      ],
+      suspicious: providers.filter(
+        (_, idx) => !consensus.agreeing.includes(idx),
+      ),
+    };
+
+    this.logger(
+      "Verified %s task on %d providers, agreed: %s, similarity: %d",
+      kind,
+      copies,
+      verification.agreed,
+      verification.similarity,
+    );
+    this.events.emit("taskVerified", {
+      kind,
+      tenant: options.tenant ?? DEFAULT_TENANT,
+      ...verification,
+    });
+    verification.suspicious.forEach((provider) =>
+      this.backend?.reportMismatch?.(provider),
+    );
+
+    if (!verification.agreed && config.rejectMismatches !== false) {
+      throw new OcrVerificationError(
+        `The outputs of the providers ${providers.map((p) => p.name).join(", ")} did not match (similarity ${verification.similarity.toFixed(3)})`,
+        providers,
+        verification.similarity,
+      );
+    }
+
+    // The request is paid for all the copies
+    const costs = outcomes.flatMap((o) => (o.cost ? [o.cost] : []));
+    const cost = outcomes[accepted].cost && {
+      ...outcomes[accepted].cost,
+      durationSec: costs.reduce((sum, c) => sum + c.durationSec, 0),
+      estimatedGlm: costs.reduce((sum, c) => sum + c.estimatedGlm, 0),
+    };
+
+    return { ...outcomes[accepted], cost, verification };
+  }
+
+  /**
+   * Decides at random if the request is verified, according to the sample rate of the verification
+   */
+  private sampleVerification(): boolean {
+    const { verification } = this.config;
+
+    return (
+      verification !== undefined &&
+      Math.random() < (verification.sampleRate ?? 1)
+    );
+  }
+
+  /**
+   * Runs the task on the backend once the scheduler lets it through, emitting the task events along the way
+   */
+  private async runTask<T>(
+    kind: string,
+    options: ConvertOptions,
+    task: (worker: OcrWorker) => Promise<T>,
+    excludeProviders?: string[],
+  ): Promise<WorkResult<T>> {
+    if (!this.backend) {
+      throw new OcrNotInitializedError();
+    }
+
+    const taskId = randomUUID();
+    const queuedAt = Date.now();
+    let startedAt: number | undefined;
+    let provider: WorkerProvider | undefined;
+    let attempt = 0;
+
+    const tenant = options.tenant ?? DEFAULT_TENANT;
+    this.events.emit("taskQueued", { taskId, kind, tenant });
+
+    let release: (() => void) | undefined;
+
+    try {
+      release = await this.waitForTurn(tenant, options);
+
+      const outcome = await this.backend.runWork(
+        (worker) => {
+          attempt++;
+          startedAt = startedAt ?? Date.now();
+          provider = worker.provider;
+
+          this.events.emit("taskStarted", {
+            taskId,
+            kind,
+            attempt,
+            provider,
+            queueWaitMs: Date.now() - queuedAt,
+          });
+
+          return task(worker);
+        },
+        {
+          ...this.withRemainingQueueTime(options, queuedAt),
+          excludeProviders,
+        },
+      );
+
+      this.events.emit("taskSucceeded", {
+        taskId,
+        kind,
+        provider: provider ?? { id: "unknown", name: "unknown" },
+        queueWaitMs: (startedAt ?? queuedAt) - queuedAt,
+        durationMs: Date.now() - (startedAt ?? queuedAt),
+      });
+
+      return { ...outcome, provider };
+    } catch (err) {
+      this.events.emit("taskFailed", {
+        taskId,
+        kind,
+        provider,
+        durationMs: Date.now() - (startedAt ?? queuedAt),
+        error: err instanceof Error ? err : new Error(String(err)),
+      });
+
+      throw err;
+    } finally {
+      release?.();
+    }
+  }
+
+  /**
+   * Adds the image to the batch of the requests with the same settings and waits for its outcome
+   */
+  private async runBatched(
+    source: ResolvedInput,
+    args: TesseractArgs,
+    options: ConvertOptions,
+  ): Promise<WorkResult<OcrOutputs>> {
+    const key = canonicalJson({
+      args,
+      tenant: options.tenant ?? DEFAULT_TENANT,
+      priority: options.priority ?? 0,
+      queueTimeoutSec: options.queueTimeoutSec,
+      executionTimeoutSec: options.executionTimeoutSec,
+    });
+
+    const outcome = this.batcher.add(
+      key,
+      { source, args, options },
+      options.signal,
+    );
+
+    if (!options.signal) {
+      return outcome;
+    }
+
+    // The batch keeps running for the other images when this one is cancelled
+    try {
+      return await raceWithSignal(outcome, options.signal);
+    } catch (err) {
+      throw options.signal.aborted ? toAbortError(options.signal.reason) : err;
+    }
+  }
+
+  /**
+   * Uploads the images of the batch as a single archive and runs Tesseract for each of them with a single command
+   *
+   * The batch is retried as a whole when the provider fails, while the failures of Tesseract are reported per image.
+   * So are the images which can't be read, the rest of the batch is sent to the provider without them.
+   */
+  private async runBatch(
+    items: BatchItem[],
+  ): Promise<BatchOutcome<WorkResult<OcrOutputs>>[]> {
+    const [{ args, options }] = items;
+    this.logger("Converting a batch of %d images to text", items.length);
+
+    const staged = await Promise.all(
+      items.map(async ({ source }): Promise<BatchOutcome<Buffer>> => {
+        try {
+          return {
+            value: source.localPath
+              ? await fs.promises.readFile(source.localPath)
+              : Buffer.from(source.data ?? new Uint8Array()),
+          };
+        } catch (err) {
+          return {
+            error: new OcrInputError(
+              `Failed to read the image ${source.label}: ${err instanceof Error ? err.message : err}`,
+            ),
+          };
+        }
+      }),
+    );
+
+    const batch = items.filter((_, idx) => "value" in staged[idx]);
+
+    const failed = staged.filter(
+      (outcome): outcome is { error: Error } => "error" in outcome,
+    );
+
+    if (batch.length === 0) {
+      return failed;
+    }
+
+    const fileNames = batch.map(
+      (item, idx) => `${idx}.${item.source.extension ?? "img"}`,
+    );
+    const archive = createTarArchive(
+      staged
+        .flatMap((outcome) => ("value" in outcome ? [outcome.value] : []))
+        .map((data, idx) => ({ name: fileNames[idx], data })),
+    );
+
+    // The images are cancelled one by one, the batch itself is only aborted along with the whole OCR
+    const { result, cost } = await this.runTask(
+      "batch",
+      { ...options, signal: this.shutdownController.signal },
+      async (worker) => {
+        const dir = `${worker.workDir}/${randomUUID()}`;
+        const archivePath = `${dir}.tar`;
+        const marker = `@@batch-${randomUUID()}`;
+
+        await worker.uploadData(archive, archivePath);
+        const prepared = await this.prepareArgs(worker, args, archivePath);
+
+        const res = await worker.run("sh", [
+          "-c",
+          buildBatchScript({
+            archivePath,
+            dir,
+            fileNames,
+            args: prepared.args,
+            marker,
+            cleanup: prepared.files,
+          }),
+        ]);
+        const outputs = splitMarkedOutputs(res.stdout, marker);
+
+        if (!res.ok || outputs.length !== batch.length) {
+          this.logger("Received result that contains: %O", res);
+          throw OcrExecutionError.fromCommand(
+            `Tesseract failed on provider ${worker.provider.name}`,
+            worker,
+            res,
+          );
+        }
+
+        return outputs.map(
+          ({ output, exitCode }, idx): BatchOutcome<OcrOutputs> =>
+            exitCode === 0
+              ? { value: { txt: Buffer.from(output) } }
+              : {
+                  error: new OcrExecutionError(
+                    `Tesseract failed on ${batch[idx].source.label} on provider ${worker.provider.name}`,
+                    {
+                      provider: worker.provider,
+                      agreementId: worker.agreementId,
+                      stdout: output,
+                      stderr: res.stderr,
+                      exitCode,
+                    },
+                  ),
+                },
+        );
+      },
+    );
+
+    // Each of the images bears an equal share of the cost of the batch
+    const share = cost && {
+      ...cost,
+      durationSec: cost.durationSec / batch.length,
+      estimatedGlm: cost.estimatedGlm / batch.length,
+    };
+
+    const outcomes = result.map(
+      (outcome): BatchOutcome<WorkResult<OcrOutputs>> =>
+        "value" in outcome
+          ? { value: { result: outcome.value, cost: share } }
+          : outcome,
+    );
+
+    // Put the outcomes of the executed images back among the ones which couldn't be read
+    let next = 0;
+    return staged.map((outcome) =>
+      "error" in outcome ? outcome : outcomes[next++],
+    );
+  }
+
+  /**
+   * Waits in the scheduler queue, within the queue timeout of the request
+   */
+  private async waitForTurn(tenant: string, options: ConvertOptions) {
+    const scope = createCancellationScope("queue", options.queueTimeoutSec, [
+      options.signal,
+    ]);
+
+    try {
+      return await this.scheduler.acquire({
+        tenant,
+        priority: options.priority ?? 0,
+        signal: scope.signal,
+      });
+    } finally {
+      scope.dispose();
+    }
+  }
+
+  /**
+   * The time spent in the scheduler queue counts towards the queue timeout of the request
+   */
+  private withRemainingQueueTime(
+    options: ConvertOptions,
+    queuedAt: number,
+  ): ConvertOptions {
+    if (options.queueTimeoutSec === undefined) {
+      return options;
+    }
+
+    const waitedSec = (Date.now() - queuedAt) / 1000;
+
+    return {
+      ...options,
+      queueTimeoutSec: Math.max(0, options.queueTimeoutSec - waitedSec),
+    };
+  }
+
+  private forwardBackendEvents(backend: OcrBackend) {
+    if (this.forwardedBackends.has(backend)) {
+      return;
+    }
+
+    // The backend events are a subset of the events emitted by this class
+    const target = this.events as unknown as EventEmitter<BackendEvents>;
+
+    const forward = <E extends keyof BackendEvents>(eventName: E) => {
+      const listener: EventEmitter.EventListener<BackendEvents, E> = (
+        ...args: EventEmitter.EventArgs<BackendEvents, E>
+      ) => {
+        target.emit(eventName, ...args);
+      };
+      backend.events?.on(eventName, listener);
+    };
+
+    BACKEND_EVENT_NAMES.forEach(forward);
+    this.forwardedBackends.add(backend);
+  }
+
+  private async uploadInput(
+    worker: OcrWorker,
+    source: ResolvedInput,
+    remotePath: string,
+  ) {
+    if (source.localPath) {
+      await worker.uploadFile(source.localPath, remotePath);
+    } else {
+      await worker.uploadData(source.data ?? new Uint8Array(), remotePath);
+    }
+  }
+
+  private async splitIntoPages(
+    sourcePath: string,
+    workDir: string,
+  ): Promise<string[]> {
+    const header = await readFileHeader(sourcePath);
+    const splitters = this.config.pageSplitters ?? DEFAULT_PAGE_SPLITTERS;
+    const splitter = splitters.find((s) => s.supports(sourcePath, header));
+
+    if (!splitter) {
+      return [sourcePath];
+    }
+
+    const pages = await splitter.split(sourcePath, workDir);
+
+    if (pages.length === 0) {
+      throw new OcrInputError(
+        `The document ${sourcePath} does not contain any pages`,
+      );
+    }
+
+    return pages;
+  }
+
+  private buildResult(outputs: OcrOutputs): OcrResult {
+    const result: OcrResult = {
+      text: outputs.txt?.toString(),
+      hocr: outputs.hocr?.toString(),
+      tsv: outputs.tsv?.toString(),
+      alto: outputs.alto?.toString(),
+      pdf: outputs.pdf,
+      pages: [],
+      osd: outputs.osd && parseOsd(outputs.osd.toString()),
+    };
+
+    if (result.tsv !== undefined) {
+      result.pages = parseTsv(result.tsv);
+    } else if (result.hocr !== undefined) {
+      result.pages = parseHocr(result.hocr);
+    }
+
+    return result;
+  }
+
+  /**
+   * Merges the per-call args with the configured ones and validates the outcome
+   */
+  private resolveArgs(overrides?: TesseractArgs): TesseractArgs {
+    const args = mergeTesseractArgs(this.config.args, overrides);
+    validateTesseractArgs(args);
+    return args;
+  }
+
+  /**
+   * Everything which affects the outcome of the OCR task besides the image, used for the cache key
+   */
+  private getTaskSettings(args: TesseractArgs, options: ConvertOptions) {
+    const detect = options.autoDetect;
+
+    return {
+      args,
+      autoDetect: detect,
+      scriptLanguages: detect?.language ? this.getScriptLanguages() : undefined,
+    };
+  }
+
+  private getScriptLanguages(): Record<string, string | string[]> {
+    return { ...DEFAULT_SCRIPT_LANGUAGES, ...this.config.scriptLanguages };
+  }
+
+  /**
+   * Runs the OSD on the uploaded image if the request asks for it, and adjusts the args of the OCR accordingly
+   *
+   * The failure of the OSD is not fatal, the OCR runs with the original args then.
+   */
+  private async detectBeforeOcr(
+    worker: OcrWorker,
+    inputPath: string,
+    args: TesseractArgs,
+    detect?: AutoDetectOptions,
+  ): Promise<{ args: TesseractArgs; output?: Buffer }> {
+    if (!detect?.rotate && !detect?.language) {
+      return { args };
+    }
+
+    const res = await this.runOsd(worker, inputPath, args);
+    const osd = res.ok ? parseOsd(res.stdout) : undefined;
+
+    if (!osd) {
       this.logger(
-        "There was an issue while fetching the list of recommended providers",
+        "OSD failed on provider '%s', running the OCR as configured: %O",
+        worker.provider.name,
+        res,
       );
-      return FALLBACK_LIST;
+      return { args };
     }
+
+    const adjusted = applyOsd(args, osd, detect, this.getScriptLanguages());
+    this.logger("Detected %o, adjusted the args to %o", osd, adjusted);
+
+    return { args: adjusted, output: Buffer.from(res.stdout) };
+  }
+
+  private async runOsd(
+    worker: OcrWorker,
+    inputPath: string,
+    args: TesseractArgs,
+  ) {
+    const prepared = await this.prepareArgs(
+      worker,
+      { psm: 0, dpi: args.dpi },
+      inputPath,
+    );
+    const osdArgs = [inputPath, "stdout", ...prepared.args];
+    this.logger(
+      "Executing tesseract with args %o on provider '%s'",
+      osdArgs,
+      worker.provider.name,
+    );
+
+    return worker.run("tesseract", osdArgs);
+  }
+
+  /**
+   * Uploads the files required by the args (like the user words) and returns the command line options
+   */
+  private async prepareArgs(
+    worker: OcrWorker,
+    args: TesseractArgs,
+    inputPath: string,
+  ): Promise<{ args: string[]; files: string[] }> {
+    const prepared = buildTesseractArgs(args, inputPath);
+
+    for (const file of prepared.files) {
+      await worker.uploadData(Buffer.from(file.content), file.remotePath);
+    }
+
+    // The custom models are installed next to the stock ones by the setup hook
+    const tessdataArgs = this.config.models?.length
+      ? ["--tessdata-dir", getTessdataDir(worker)]
+      : [];
+
+    return {
+      args: [...tessdataArgs, ...prepared.args],
+      files: prepared.files.map((file) => file.remotePath),
+    };
+  }
+
+  private registerSetupHooks(backend: OcrBackend) {
+    if (this.preparedBackends.has(backend)) {
+      return;
+    }
+
+    if (this.config.models?.length) {
+      backend.addSetupHook(createModelInstaller(this.config.models));
+    }
+
+    this.config.setup?.forEach((hook) => backend.addSetupHook(hook));
+    this.preparedBackends.add(backend);
+  }
+
+  /**
+   * Returns the summary of the costs of the session with Golem Network so far
+   *
+   * The amounts are based on the debit notes and invoices accepted for payment, along with the estimated
+   * costs of the executed OCR tasks. Backends which do not track costs report zeros.
+   *
+   * @throws OcrNotInitializedError if the Tesseract On Golem is not initialized yet.
+   */
+  getCostInfo(): CostInfo {
+    if (!this.backend) {
+      throw new OcrNotInitializedError();
+    }
+
+    return (
+      this.backend.getCostInfo?.() ?? {
+        totalGlm: 0,
+        estimatedTasksGlm: 0,
+        rentals: [],
+      }
+    );
   }
 }
@@ -0,0 +1,196 @@
+import { WorkerProvider } from "./backend";
+import { OcrInvalidArgsError } from "./errors";
+
+/**
+ * Controls the redundant execution of the requests on distinct providers, which protects against the providers
+ * returning wrong results
+ */
+export interface VerificationConfig {
+  /**
+   * The share of the requests (0-1) which are verified, chosen at random
+   *
+   * The requests can opt in or out with {@link ConvertOptions.verify} regardless of this value.
+   *
+   * @default 1 (all requests)
+   */
+  sampleRate?: number;
+
+  /**
+   * On how many distinct providers each of the verified requests is executed
+   *
+   * @default 2
+   */
+  copies?: number;
+
+  /**
+   * How similar (0-1) the texts produced by two providers have to be to consider them in agreement
+   *
+   * The similarity is computed on the texts with the whitespace normalized, 1 means identical texts.
+   *
+   * @default 0.98
+   */
+  minSimilarity?: number;
+
+  /**
+   * Fails the requests for which the providers did not reach a consensus with {@link OcrVerificationError}
+   *
+   * When disabled, the outputs of the first provider are returned, and the mismatch is reported with
+   * the `taskVerified` event and in {@link OcrResult.verification}.
+   *
+   * @default true
+   */
+  rejectMismatches?: boolean;
+}
+
+/**
+ * The outcome of the comparison of the outputs produced by distinct providers
+ */
+export interface VerificationOutcome {
+  /** Tells if the majority of the providers agreed on the outputs */
+  agreed: boolean;
+
+  /**
+   * The lowest similarity between the accepted outputs and the ones which agreed with them, or the highest
+   * similarity between any two outputs when there was no consensus
+   */
+  similarity: number;
+
+  /** The providers which executed the request, the one whose outputs were accepted goes first */
+  providers: WorkerProvider[];
+
+  /** The providers whose outputs differed from the consensus, all of them when there was no consensus */
+  suspicious: WorkerProvider[];
+}
+
+export const DEFAULT_VERIFICATION_COPIES = 2;
+
+export const DEFAULT_MIN_SIMILARITY = 0.98;
+
+/**
+ * @throws OcrInvalidArgsError if any of the settings is out of its range
+ */
+export const validateVerificationConfig = (config: VerificationConfig) => {
+  const { sampleRate = 1, copies = DEFAULT_VERIFICATION_COPIES } = config;
+  const minSimilarity = config.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+
+  if (!(sampleRate >= 0 && sampleRate <= 1)) {
+    throw new OcrInvalidArgsError(
+      "The sample rate of the verification has to be between 0 and 1",
+    );
+  }
+
+  if (!Number.isInteger(copies) || copies < 2) {
+    throw new OcrInvalidArgsError(
+      "The verification needs at least 2 copies of each request",
+    );
+  }
+
+  if (!(minSimilarity >= 0 && minSimilarity <= 1)) {
+    throw new OcrInvalidArgsError(
+      "The minimum similarity of the verification has to be between 0 and 1",
+    );
+  }
+};
+
+const normalizeText = (text: string) => text.trim().replace(/\s+/g, " ");
+
+/**
+ * Computes how similar the texts are, as 1 minus their Levenshtein distance relative to the length of the longer one
+ *
+ * The whitespace is normalized before the comparison, so that the differences in the layout don't count.
+ *
+ * @returns The similarity in range 0-1, where 1 means the same texts.
+ */
+export const textSimilarity = (a: string, b: string): number => {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+
+  if (left === right) {
+    return 1;
+  }
+
+  // Only two rows of the distance matrix are kept, the texts of the pages are long
+  let previous = Uint32Array.from({ length: right.length + 1 }, (_, j) => j);
+  let current = new Uint32Array(right.length + 1);
+
+  for (let i = 1; i <= left.length; i++) {
+    current[0] = i;
+
+    for (let j = 1; j <= right.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (left[i - 1] === right[j - 1] ? 0 : 1),
+      );
+    }
+
+    [previous, current] = [current, previous];
+  }
+
+  return 1 - previous[right.length] / Math.max(left.length, right.length);
+};
+
+/**
+ * Finds the text which the majority of the texts agree with
+ *
+ * @returns The index of the accepted text (undefined if there's no majority), the indexes of the texts which agree
+ *          with it and the similarity as described in {@link VerificationOutcome.similarity}.
+ */
+export const findConsensus = (
+  texts: string[],
+  minSimilarity: number,
+): { accepted?: number; agreeing: number[]; similarity: number } => {
+  const similarities = texts.map((a, i) =>
+    texts.map((b, j) => (i === j ? 1 : textSimilarity(a, b))),
+  );
+
+  let best = 0;
+  let bestAgreeing: number[] = [];
+
+  for (let i = 0; i < texts.length; i++) {
+    const agreeing = similarities[i]
+      .map((similarity, j) => (similarity >= minSimilarity ? j : -1))
+      .filter((j) => j !== -1);
+
+    if (agreeing.length > bestAgreeing.length) {
+      best = i;
+      bestAgreeing = agreeing;
+    }
+  }
+
+  if (bestAgreeing.length * 2 > texts.length) {
+    return {
+      accepted: best,
+      agreeing: bestAgreeing,
+      similarity: Math.min(...bestAgreeing.map((j) => similarities[best][j])),
+    };
+  }
+
+  return {
+    agreeing: [],
+    similarity: Math.max(
+      0,
+      ...similarities.flatMap((row, i) => row.filter((_, j) => j !== i)),
+    ),
+  };
+};
+
+/**
+ * Extracts the text to compare from the outputs of Tesseract: the plain text, or the words of the TSV output
+ */
+export const getComparableText = (outputs: {
+  txt?: Buffer;
+  tsv?: Buffer;
+}): string => {
+  if (outputs.txt) {
+    return outputs.txt.toString();
+  }
+
+  // The lines other than the TSV rows of the words, like the header or the markers between the regions, are skipped
+  return (outputs.tsv?.toString() ?? "")
+    .split("\n")
+    .map((line) => line.split("\t"))
+    .filter((columns) => columns.length === 12 && columns[0] === "5")
+    .map((columns) => columns[11])
+    .join(" ");
+};